@@ -1,90 +1,198 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-// Fix: Remove `LiveSession` from import as it's not an exported member from '@google/genai'.
-import { GoogleGenAI, LiveServerMessage, Blob, Modality } from '@google/genai';
-import type { Subtitle, CustomizationState } from './types';
-
-// Fix: Add a local interface for `LiveSession` since it is not exported from the library.
-interface LiveSession {
-  sendRealtimeInput(input: { media: Blob }): void;
-  close(): void;
-}
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { Subtitle, SubtitleTrack, Speaker, GlossaryEntry, TranscriptAnalysis, CustomizationState, StylePreset, AudioSourceMode, DragScope, Project } from './types';
+import { INITIAL_CUSTOMIZATION_STATE, languageName } from './constants';
+import { UploadIcon, RecordIcon, StopIcon, ImportIcon, SettingsIcon } from './components/icons';
+import ExportMenu from './components/ExportMenu';
+import ImportDialog, { ImportMode } from './components/ImportDialog';
+import ProgressBar from './components/ProgressBar';
+import SessionStatus from './components/SessionStatus';
+import SettingsDialog from './components/SettingsDialog';
+import Timeline from './components/Timeline';
+import CueStyleEditor from './components/CueStyleEditor';
+import ProjectPicker from './components/ProjectPicker';
+import TrackSelect from './components/TrackSelect';
+import TrackDialog from './components/TrackDialog';
+import TranslateDialog, { TranslateRequest } from './components/TranslateDialog';
+import ReadabilityDialog from './components/ReadabilityDialog';
+import SpeakerDialog from './components/SpeakerDialog';
+import GlossaryDialog from './components/GlossaryDialog';
+import FindReplacePanel from './components/FindReplacePanel';
+import ShortcutsDialog from './components/ShortcutsDialog';
+import AnalysisDialog from './components/AnalysisDialog';
+import ChapterBar from './components/ChapterBar';
+import CustomizationPanel from './components/CustomizationPanel';
+import { SUBTITLE_FORMATS, SubtitleFormat, ParseResult, toSRT, toVTT, toASS, parseSubtitleFile } from './utils/subtitleFormats';
+import {
+  sortByStartTime,
+  createSubtitleId,
+  splitSubtitle,
+  mergeWithNext,
+  insertSubtitleAt,
+  deleteSubtitle,
+  cueAt,
+  previousCue,
+  nextCue,
+  lastEndedCue,
+  withEdgeAt,
+} from './utils/subtitles';
+import { useHistory } from './hooks/useHistory';
+import { usePlaybackTime } from './hooks/usePlaybackTime';
+import { resolveSubtitleStyle, setStyleOverride, hasStyleOverrides } from './utils/style';
+import { SECONDARY_TEXT_SCALE } from './utils/captionRenderer';
+import { cssFont, textShadowCss, VERTICAL_PADDING_RATIO } from './utils/typography';
+import { presetStyleOf } from './utils/stylePresets';
+import { measureLevel } from './utils/audio';
+import { createTrack } from './utils/tracks';
+import { labelSubtitle, assignSpeakers, pruneSpeakerIds } from './utils/speakers';
+import { applyGlossary } from './utils/glossary';
+import { maskProfanity, maskSubtitle } from './utils/profanity';
+import { ReplaceResult, SearchMatch } from './utils/findReplace';
+import { resolveAnalysis, CHAPTER_FORMATS, ChapterFormat, toYouTubeChapters, toVTTChapters } from './utils/chapters';
+import { alignWords, retimeWords, hasWordTimings, splitWordsAndSpaces, activeWordIndex } from './utils/wordTiming';
+import { validateSubtitles, autoFixSubtitles, ReadabilityIssue } from './utils/readability';
+import { downloadTextFile, downloadBlob, baseName } from './utils/download';
+import { loadWaveform, Waveform } from './utils/waveform';
+import { startAudioCapture, AudioCapture } from './services/audioCapture';
+import {
+  createTranscriptionProvider,
+  connectWithReconnect,
+  DEFAULT_RECONNECT_OPTIONS,
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  SessionHealth,
+  TranscriptionSession,
+  TranscriptionSettings,
+  TranscriptEvent,
+} from './services/transcription';
+import { renderBurnedInVideo } from './services/burnIn';
+import {
+  listProjects,
+  getProject,
+  saveProject,
+  deleteProject,
+  duplicateProject,
+  renameProject,
+  getVideoBlob,
+  storeVideoBlob,
+  createProjectId,
+} from './services/projectStore';
+import { fingerprintFile } from './utils/fingerprint';
+import { serializeProject, parseProjectFile } from './utils/projectFile';
+import { transcribeFile, createGeminiBatchBackend, createHttpBatchBackend, BatchProgress } from './services/batchTranscription';
+import { createTranslationProvider, translateCues } from './services/translation';
+import { createDiarizationProvider, DiarizationProviderId } from './services/diarization';
+import { createTranscriptAnalyzer, AnalysisProviderId } from './services/transcriptAnalysis';
+import { loadReadabilitySettings, saveReadabilitySettings, activeProfile, ReadabilitySettings } from './services/readabilityProfiles';
+import { loadCustomPresets, saveCustomPresets, allPresets } from './services/stylePresetStore';
+import { loadFontFile, restoreFonts, removeFont } from './services/fonts';
+import { loadKeymap, saveKeymap } from './services/shortcutStore';
+import { Keymap, ShortcutAction, keyComboFromEvent, actionForCombo, focusOwnsKey, isEditableField, formatKeyCombo } from './utils/shortcuts';
 
 // --- HELPER FUNCTIONS & CONSTANTS ---
 
-const FONT_FAMILES = ['Arial', 'Verdana', 'Helvetica', 'Times New Roman', 'Courier New'];
-
-const INITIAL_CUSTOMIZATION_STATE: CustomizationState = {
-  fontSize: 24,
-  color: '#FFFFFF',
-  fontFamily: 'Arial',
-  position: { x: 50, y: 85 }, // Center-bottom position in percentage
-  backgroundColor: 'rgba(0, 0, 0, 0.5)',
-};
-
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
+/** A project's identity; everything editable lives in the editor state. */
+type ProjectMeta = Omit<Project, 'tracks' | 'speakers' | 'glossary' | 'customization' | 'analysis' | 'updatedAt'>;
 
-function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = Math.max(-1, Math.min(1, data[i])) * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
+/** Everything covered by undo/redo. */
+interface EditorState {
+  tracks: SubtitleTrack[];
+  speakers: Speaker[];
+  glossary: GlossaryEntry[];
+  customization: CustomizationState;
+  analysis: TranscriptAnalysis | null;
 }
 
-// --- ICON COMPONENTS ---
-
-const UploadIcon: React.FC<{ className?: string }> = ({ className }) => (
-  <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M14 12v4.001h-4V12H6.999l5.001-5.001L17.001 12H14zM12 2C6.486 2 2 6.486 2 12s4.486 10 10 10 10-4.486 10-10S17.514 2 12 2zm0 18c-4.411 0-8-3.589-8-8s3.589-8 8-8 8 3.589 8 8-3.589 8-8 8z"></path></svg>
-);
+const newEditorState = (customization: CustomizationState): EditorState => ({
+  tracks: [createTrack('Original')],
+  speakers: [],
+  glossary: [],
+  customization,
+  analysis: null,
+});
 
-const RecordIcon: React.FC<{ className?: string }> = ({ className }) => (
-  <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 18a6 6 0 1 0 0-12 6 6 0 0 0 0 12zm0-2a4 4 0 1 1 0-8 4 4 0 0 1 0 8z"></path><path d="M12 22A10 10 0 1 0 12 2a10 10 0 0 0 0 20zm0-2a8 8 0 1 1 0-16 8 8 0 0 1 0 16z"></path></svg>
-);
+const AUTOSAVE_DELAY_MS = 500;
+/** Browsers don't expose a video's frame rate, so frame stepping assumes the common 30 fps. */
+const FRAME_DURATION = 1 / 30;
+/** How far past a looped cue's end playback may get before the jump back, in seconds. */
+const LOOP_SEEK_TOLERANCE = 0.25;
 
-const StopIcon: React.FC<{ className?: string }> = ({ className }) => (
-  <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2C6.486 2 2 6.486 2 12s4.486 10 10 10 10-4.486 10-10S17.514 2 12 2zm0 18c-4.411 0-8-3.589-8-8s3.589-8 8-8 8 3.589 8 8-3.589 8-8 8zm-3-3h6v-6H9v6z"></path></svg>
-);
+const AUDIO_SOURCE_OPTIONS: { mode: AudioSourceMode; label: string }[] = [
+  { mode: 'microphone', label: 'Microphone' },
+  { mode: 'video', label: 'Video audio' },
+];
 
 // --- UI COMPONENTS ---
 
-const UploadPlaceholder: React.FC<{ onSelectClick: () => void }> = ({ onSelectClick }) => {
+interface UploadPlaceholderProps {
+  onSelectClick: () => void;
+  /** A project whose video isn't stored and must be located by the user. */
+  relinkProject: Project | null;
+  onCancelRelink: () => void;
+  children?: React.ReactNode;
+}
+
+const UploadPlaceholder: React.FC<UploadPlaceholderProps> = ({ onSelectClick, relinkProject, onCancelRelink, children }) => {
   return (
-    <div className="flex flex-col items-center justify-center h-full w-full bg-gray-800/50 rounded-lg border-2 border-dashed border-gray-600">
+    <div className="flex flex-col items-center justify-center min-h-full w-full p-6 bg-gray-800/50 rounded-lg border-2 border-dashed border-gray-600">
       <UploadIcon className="w-24 h-24 text-gray-400 mb-4" />
-      <h2 className="text-2xl font-bold mb-2">Upload Your Video</h2>
-      <p className="text-gray-400 mb-6">Select a video file to start generating subtitles.</p>
-      <button onClick={onSelectClick} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
-        Select Video
-      </button>
+      {relinkProject ? (
+        <>
+          <h2 className="text-2xl font-bold mb-2">Locate Video</h2>
+          <p className="text-gray-400 mb-6 text-center">
+            "{relinkProject.name}" needs its video, <span className="text-white">{relinkProject.video.fileName}</span>, which isn't stored in this browser.
+          </p>
+          <div className="flex gap-2">
+            <button onClick={onCancelRelink} className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors">
+              Cancel
+            </button>
+            <button onClick={onSelectClick} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+              Locate Video...
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <h2 className="text-2xl font-bold mb-2">Upload Your Video</h2>
+          <p className="text-gray-400 mb-6">Select a video file to start generating subtitles.</p>
+          <button onClick={onSelectClick} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+            Select Video
+          </button>
+        </>
+      )}
+      {children}
     </div>
   );
 };
 
 interface DraggableSubtitleProps {
     subtitle: Subtitle | null;
+    /** Active cue text of the second track in a dual-language display. */
+    secondaryText: string | null;
+    /** Live transcription still in progress, shown in a provisional style. */
+    interimText: string | null;
     customization: CustomizationState;
-    onPositionChange: (pos: { x: number; y: number }) => void;
+    dragScope: DragScope;
+    /** `subtitleId` is set when only that cue should move. */
+    onPositionChange: (pos: { x: number; y: number }, subtitleId: number | null) => void;
     videoContainerRef: React.RefObject<HTMLDivElement>;
+    /** Drives the karaoke highlight, which needs finer timing than `timeupdate`. */
+    videoRef: React.RefObject<HTMLVideoElement>;
 }
 
-const DraggableSubtitle: React.FC<DraggableSubtitleProps> = ({ subtitle, customization, onPositionChange, videoContainerRef }) => {
-    const isDragging = useRef(false);
+const DraggableSubtitle: React.FC<DraggableSubtitleProps> = ({ subtitle, secondaryText, interimText, customization, dragScope, onPositionChange, videoContainerRef, videoRef }) => {
+    /** The pointer doing the drag; others (a second finger) are ignored. */
+    const dragPointerId = useRef<number | null>(null);
     const offset = useRef({ x: 0, y: 0 });
+    const dragTargetId = useRef<number | null>(null);
+    const karaokeWords = customization.karaoke && subtitle && hasWordTimings(subtitle) ? subtitle.words : null;
+    const playbackTime = usePlaybackTime(videoRef, karaokeWords !== null);
 
-    const handleMouseDown = (e: React.MouseEvent) => {
-        if (!videoContainerRef.current) return;
-        isDragging.current = true;
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (!videoContainerRef.current || !e.isPrimary || e.button !== 0) return;
+        dragPointerId.current = e.pointerId;
+        // Shift flips the scope. A cue that already has its own position always moves alone,
+        // since moving the global default wouldn't visibly move it.
+        const cueOnly = !!subtitle && ((dragScope === 'cue') !== e.shiftKey || subtitle.style?.position !== undefined);
+        dragTargetId.current = cueOnly && subtitle ? subtitle.id : null;
         const subtitleEl = e.currentTarget as HTMLDivElement;
         const subtitleRect = subtitleEl.getBoundingClientRect();
         
@@ -95,8 +203,8 @@ const DraggableSubtitle: React.FC<DraggableSubtitleProps> = ({ subtitle, customi
         e.preventDefault();
     };
 
-    const handleMouseMove = useCallback((e: MouseEvent) => {
-        if (!isDragging.current || !videoContainerRef.current) return;
+    const handlePointerMove = useCallback((e: PointerEvent) => {
+        if (e.pointerId !== dragPointerId.current || !videoContainerRef.current) return;
         const rect = videoContainerRef.current.getBoundingClientRect();
         let x = ((e.clientX - rect.left - offset.current.x + (rect.width * 0.5)) / rect.width) * 100;
         let y = ((e.clientY - rect.top - offset.current.y) / rect.height) * 100;
@@ -104,118 +212,300 @@ const DraggableSubtitle: React.FC<DraggableSubtitleProps> = ({ subtitle, customi
         x = Math.max(0, Math.min(100, x));
         y = Math.max(0, Math.min(100, y));
 
-        onPositionChange({ x, y });
+        onPositionChange({ x, y }, dragTargetId.current);
     }, [onPositionChange, videoContainerRef]);
 
-    const handleMouseUp = useCallback(() => {
-        isDragging.current = false;
+    const handlePointerUp = useCallback((e: PointerEvent) => {
+        if (e.pointerId === dragPointerId.current) dragPointerId.current = null;
     }, []);
 
     useEffect(() => {
-        window.addEventListener('mousemove', handleMouseMove);
-        window.addEventListener('mouseup', handleMouseUp);
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        window.addEventListener('pointercancel', handlePointerUp);
         return () => {
-            window.removeEventListener('mousemove', handleMouseMove);
-            window.removeEventListener('mouseup', handleMouseUp);
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
         };
-    }, [handleMouseMove, handleMouseUp]);
+    }, [handlePointerMove, handlePointerUp]);
 
-    if (!subtitle) return null;
+    if (!subtitle && !secondaryText && !interimText) return null;
 
+    const style = subtitle ? resolveSubtitleStyle(customization, subtitle) : customization;
     const subtitleStyle: React.CSSProperties = {
-        fontSize: `${customization.fontSize}px`,
-        color: customization.color,
-        fontFamily: customization.fontFamily,
-        left: `${customization.position.x}%`,
-        top: `${customization.position.y}%`,
+        font: cssFont(style, style.fontSize),
+        lineHeight: style.lineHeight,
+        textAlign: style.textAlign,
+        color: style.color,
+        left: `${style.position.x}%`,
+        top: `${style.position.y}%`,
         transform: 'translate(-50%, 0)',
-        backgroundColor: customization.backgroundColor,
-        padding: '0.2em 0.5em',
+        width: 'max-content',
+        maxWidth: `${style.maxWidth}%`,
+        backgroundColor: style.backgroundColor,
+        padding: `${style.backgroundPadding * VERTICAL_PADDING_RATIO}em ${style.backgroundPadding}em`,
         borderRadius: '5px',
-        textShadow: '1px 1px 2px black',
+        textShadow: textShadowCss(style),
+        // The stroke is centred on the glyph edge; painting it under the fill leaves `outlineWidth` visible.
+        WebkitTextStroke: style.outlineWidth > 0 ? `${style.outlineWidth * 2}px ${style.outlineColor}` : undefined,
+        paintOrder: 'stroke fill',
+        whiteSpace: 'pre-line',
+        // Nothing final to show yet: mark the whole box as provisional.
+        outline: !subtitle && !secondaryText ? '1px dashed rgba(255, 255, 255, 0.6)' : undefined,
     };
 
     return (
         <div 
-            onMouseDown={handleMouseDown} 
-            className="absolute cursor-move select-none text-center"
+            onPointerDown={handlePointerDown}
+            // Without touch-none the browser scrolls the page instead of sending the drag.
+            className="absolute cursor-move select-none touch-none"
             style={subtitleStyle}
         >
-            {subtitle.text}
-        </div>
-    );
-};
-
-interface CustomizationPanelProps {
-    customization: CustomizationState;
-    onUpdate: (newState: Partial<CustomizationState>) => void;
-}
-
-const CustomizationPanel: React.FC<CustomizationPanelProps> = ({ customization, onUpdate }) => {
-    return (
-        <div className="bg-gray-800 p-4 rounded-lg space-y-4">
-            <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Customize Subtitles</h3>
-            <div>
-                <label htmlFor="font-size" className="block text-sm font-medium text-gray-300">Font Size: {customization.fontSize}px</label>
-                <input id="font-size" type="range" min="12" max="72" value={customization.fontSize} onChange={(e) => onUpdate({ fontSize: Number(e.target.value) })} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
-            </div>
-            <div>
-                <label htmlFor="font-color" className="block text-sm font-medium text-gray-300">Font Color</label>
-                <input id="font-color" type="color" value={customization.color} onChange={(e) => onUpdate({ color: e.target.value })} className="w-full h-10 p-1 bg-gray-700 border border-gray-600 rounded-lg cursor-pointer" />
-            </div>
-             <div>
-                <label htmlFor="bg-color" className="block text-sm font-medium text-gray-300">Background Color</label>
-                <input id="bg-color" type="color" value={customization.backgroundColor} onChange={(e) => onUpdate({ backgroundColor: e.target.value })} className="w-full h-10 p-1 bg-gray-700 border border-gray-600 rounded-lg cursor-pointer" />
-            </div>
-            <div>
-                <label htmlFor="font-family" className="block text-sm font-medium text-gray-300">Font Family</label>
-                <select id="font-family" value={customization.fontFamily} onChange={(e) => onUpdate({ fontFamily: e.target.value })} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg">
-                    {FONT_FAMILES.map(font => <option key={font} value={font}>{font}</option>)}
-                </select>
-            </div>
+            {karaokeWords ? (
+                splitWordsAndSpaces(subtitle!.text).map(({ text, wordIndex }, i) => (
+                    <span key={i} style={wordIndex !== null && wordIndex === activeWordIndex(karaokeWords, playbackTime) ? { color: customization.highlightColor } : undefined}>
+                        {text}
+                    </span>
+                ))
+            ) : subtitle?.text}
+            {secondaryText && <div style={{ fontSize: `${SECONDARY_TEXT_SCALE}em` }}>{secondaryText}</div>}
+            {interimText && <div className="italic opacity-70">{interimText}…</div>}
         </div>
     );
 };
 
 interface SubtitleListProps {
+  tracks: SubtitleTrack[];
+  activeTrackId: string;
+  onSelectTrack: (trackId: string) => void;
+  onNewTrack: () => void;
+  onEditTrack: () => void;
+  onDeleteTrack: () => void;
+  onTranslateTrack: () => void;
+  /** True while a translation is running. */
+  isTranslating: boolean;
   subtitles: Subtitle[];
+  /** Live transcription not yet finalised into a cue. */
+  interimCue: TranscriptEvent | null;
+  /** Readability problems by cue id. */
+  issues: Map<number, ReadabilityIssue[]>;
+  profileName: string;
+  onAutoFix: () => void;
+  onOpenRules: () => void;
+  onAlignWords: () => void;
+  speakers: Speaker[];
+  /** `speakerId` null clears the cue's speaker. */
+  onAssignSpeaker: (id: number, speakerId: string | null) => void;
+  onOpenSpeakers: () => void;
+  onOpenGlossary: () => void;
+  onOpenAnalysis: () => void;
+  /** Applies `replace` to the active track's cues and reports how many matches changed. */
+  onReplace: (replace: (subtitles: Subtitle[]) => ReplaceResult) => void;
   onUpdate: (id: number, text: string) => void;
+  onSplit: (id: number, position: number) => void;
+  onMergeNext: (id: number) => void;
+  onDelete: (id: number) => void;
+  onInsert: () => void;
+  customization: CustomizationState;
+  onStyleChange: (subtitle: Subtitle) => void;
+  customFonts: string[];
+  /** Cue whose textarea should take focus, e.g. one just inserted. A new object each time, so the same cue can be asked for again. */
+  focusRequest: { id: number } | null;
+  /** The cue whose text has focus, or null when it's lost. */
+  onEditingChange: (id: number | null) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   videoRef: React.RefObject<HTMLVideoElement>;
   currentTime: number;
 }
-const SubtitleList: React.FC<SubtitleListProps> = ({ subtitles, onUpdate, videoRef, currentTime }) => {
+const SubtitleList: React.FC<SubtitleListProps> = ({ tracks, activeTrackId, onSelectTrack, onNewTrack, onEditTrack, onDeleteTrack, onTranslateTrack, isTranslating, subtitles, interimCue, issues, profileName, onAutoFix, onOpenRules, onAlignWords, speakers, onAssignSpeaker, onOpenSpeakers, onOpenGlossary, onOpenAnalysis, onReplace, onUpdate, onSplit, onMergeNext, onDelete, onInsert, customization, onStyleChange, customFonts, focusRequest, onEditingChange, onUndo, onRedo, canUndo, canRedo, videoRef, currentTime }) => {
     const activeSubtitleRef = useRef<HTMLDivElement>(null);
+    const textareaRefs = useRef(new Map<number, HTMLTextAreaElement>());
+    const [styleEditorId, setStyleEditorId] = useState<number | null>(null);
+    const [isFindOpen, setIsFindOpen] = useState(false);
 
     useEffect(() => {
         activeSubtitleRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
     }, [currentTime]);
 
+    useEffect(() => {
+        if (focusRequest) textareaRefs.current.get(focusRequest.id)?.focus();
+    }, [focusRequest]);
+
     const handleSeek = (time: number) => {
         if(videoRef.current) {
             videoRef.current.currentTime = time;
         }
     }
 
+    const handleJumpToMatch = (match: SearchMatch) => {
+        const sub = subtitles.find(s => s.id === match.subtitleId);
+        if (sub) handleSeek(sub.startTime);
+        const textarea = textareaRefs.current.get(match.subtitleId);
+        textarea?.focus();
+        textarea?.setSelectionRange(match.index, match.index + match.length);
+    };
+
+    // Alt+1…9 picks a speaker from the roster for the focused cue, Alt+0 clears it.
+    // `code` rather than `key`, since Alt+digit types a symbol on macOS.
+    // Esc leaves the text, so plain-key review shortcuts work again.
+    const handleCueKeyDown = (e: React.KeyboardEvent, id: number) => {
+        if (e.key === 'Escape' && e.target instanceof HTMLTextAreaElement) {
+            e.target.blur();
+            return;
+        }
+        const digit = /^Digit(\d)$/.exec(e.code);
+        if (!e.altKey || e.ctrlKey || e.metaKey || !digit) return;
+        const n = Number(digit[1]);
+        if (n > speakers.length) return;
+        e.preventDefault();
+        onAssignSpeaker(id, n === 0 ? null : speakers[n - 1].id);
+    };
+
     return (
         <div className="bg-gray-800 p-4 rounded-lg flex-grow overflow-y-auto">
-            <h3 className="text-xl font-bold border-b border-gray-600 pb-2 mb-2">Generated Subtitles</h3>
+            <div className="flex items-center justify-between border-b border-gray-600 pb-2 mb-2">
+                <h3 className="text-xl font-bold">Generated Subtitles</h3>
+                <div className="flex flex-wrap justify-end items-center gap-1 text-sm">
+                    <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded">Undo</button>
+                    <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded">Redo</button>
+                    <button onClick={() => setIsFindOpen(open => !open)} title="Find and replace across all cues" className={`px-2 py-1 rounded ${isFindOpen ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}>Find</button>
+                    <button onClick={onOpenGlossary} title="Preferred spellings applied to new cues" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">Glossary</button>
+                    <button onClick={onOpenAnalysis} title="Chapters, a summary and a keyword index from the transcript" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">Analyze</button>
+                    <button onClick={onOpenSpeakers} title="Edit the speaker roster or detect speakers automatically" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">Speakers</button>
+                    <button onClick={onAlignWords} disabled={subtitles.length === 0} title="Estimate per-word timings from the audio, for karaoke highlighting" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded">Align words</button>
+                    <button onClick={onInsert} title="Insert a cue at the playhead" className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 rounded">+ Cue</button>
+                </div>
+            </div>
+            <div className="flex items-center gap-1 text-sm mb-2">
+                <TrackSelect
+                    tracks={tracks}
+                    value={activeTrackId}
+                    onChange={(id) => id && onSelectTrack(id)}
+                    label="Track"
+                    className="flex-grow min-w-0 p-1 bg-gray-700 border border-gray-600 rounded"
+                />
+                <button onClick={onNewTrack} title="Add an empty track" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">New</button>
+                <button onClick={onEditTrack} title="Rename the track or change its language" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">Edit</button>
+                <button
+                    onClick={onTranslateTrack}
+                    disabled={isTranslating || subtitles.length === 0}
+                    title="Translate this track into a new one"
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+                >
+                    Translate
+                </button>
+                <button
+                    onClick={onDeleteTrack}
+                    disabled={tracks.length < 2}
+                    title="Delete this track"
+                    className="px-2 py-1 bg-gray-700 hover:bg-red-600 disabled:opacity-40 rounded"
+                >
+                    Delete
+                </button>
+            </div>
+            <div className="flex items-center gap-1 text-sm mb-2">
+                <span className={`flex-grow truncate ${issues.size > 0 ? 'text-yellow-400' : 'text-gray-400'}`} title={`Checked against "${profileName}"`}>
+                    {issues.size > 0 ? `⚠ ${issues.size} of ${subtitles.length} cues break the readability rules` : `All cues meet "${profileName}"`}
+                </span>
+                <button onClick={onAutoFix} disabled={issues.size === 0} title="Re-break lines, split long cues and adjust durations" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded">Auto-fix</button>
+                <button onClick={onOpenRules} title="Choose or edit the readability profile" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">Rules</button>
+            </div>
+            {isFindOpen && (
+                <FindReplacePanel subtitles={subtitles} onReplace={onReplace} onJump={handleJumpToMatch} onClose={() => setIsFindOpen(false)} />
+            )}
             <div className="space-y-2">
-                {subtitles.map(sub => {
+                {subtitles.map((sub, index) => {
                     const isActive = currentTime >= sub.startTime && currentTime < sub.endTime;
+                    const cueIssues = issues.get(sub.id);
+                    const speaker = speakers.find(s => s.id === sub.speakerId);
                     return (
-                        <div key={sub.id} ref={isActive ? activeSubtitleRef : null} className={`p-2 rounded-md ${isActive ? 'bg-indigo-600/50' : 'bg-gray-700'}`}>
-                            <div className="text-xs text-gray-400 cursor-pointer" onClick={() => handleSeek(sub.startTime)}>
-                                {new Date(sub.startTime * 1000).toISOString().substr(14, 5)} - {new Date(sub.endTime * 1000).toISOString().substr(14, 5)}
+                        <div
+                            key={sub.id}
+                            ref={isActive ? activeSubtitleRef : null}
+                            onKeyDown={(e) => handleCueKeyDown(e, sub.id)}
+                            className={`p-2 rounded-md ${isActive ? 'bg-indigo-600/50' : 'bg-gray-700'} ${cueIssues ? 'border-l-4 border-yellow-500' : ''}`}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="text-xs text-gray-400 cursor-pointer" onClick={() => handleSeek(sub.startTime)}>
+                                    {new Date(sub.startTime * 1000).toISOString().substr(14, 5)} - {new Date(sub.endTime * 1000).toISOString().substr(14, 5)}
+                                </div>
+                                {speakers.length > 0 && (
+                                    <select
+                                        value={speaker?.id ?? ''}
+                                        onChange={(e) => onAssignSpeaker(sub.id, e.target.value || null)}
+                                        aria-label="Speaker"
+                                        title="Speaker (Alt+1…9 while editing, Alt+0 to clear)"
+                                        style={{ color: speaker?.color }}
+                                        className="max-w-[50%] text-xs p-0.5 bg-gray-800 border border-gray-600 rounded"
+                                    >
+                                        <option value="">No speaker</option>
+                                        {speakers.map((s, i) => <option key={s.id} value={s.id}>{i < 9 ? `${i + 1}. ` : ''}{s.name}</option>)}
+                                    </select>
+                                )}
                             </div>
+                            {cueIssues && (
+                                <ul className="text-xs text-yellow-300 list-disc list-inside">
+                                    {cueIssues.map(issue => <li key={issue.rule}>{issue.message}</li>)}
+                                </ul>
+                            )}
                             <textarea
+                                ref={(el) => { if (el) textareaRefs.current.set(sub.id, el); else textareaRefs.current.delete(sub.id); }}
+                                data-cue-text
                                 value={sub.text}
                                 onChange={(e) => onUpdate(sub.id, e.target.value)}
+                                onFocus={() => onEditingChange(sub.id)}
+                                onBlur={() => onEditingChange(null)}
                                 className="w-full bg-transparent text-white border-0 focus:ring-0 resize-none p-0"
                                 rows={2}
                             />
+                            <div className="flex justify-end gap-1 text-xs">
+                                <button
+                                    // Keep the textarea's caret; splitting reads it.
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => onSplit(sub.id, textareaRefs.current.get(sub.id)?.selectionStart ?? Math.floor(sub.text.length / 2))}
+                                    title="Split at the text cursor"
+                                    className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 rounded"
+                                >
+                                    Split
+                                </button>
+                                <button
+                                    onClick={() => onMergeNext(sub.id)}
+                                    disabled={index === subtitles.length - 1}
+                                    title="Merge with the next cue"
+                                    className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 disabled:opacity-40 rounded"
+                                >
+                                    Merge ↓
+                                </button>
+                                <button
+                                    onClick={() => setStyleEditorId(id => id === sub.id ? null : sub.id)}
+                                    title="Style this cue separately"
+                                    className={`px-2 py-0.5 rounded ${hasStyleOverrides(sub) ? 'bg-indigo-500 hover:bg-indigo-400' : 'bg-gray-600 hover:bg-gray-500'}`}
+                                >
+                                    Style
+                                </button>
+                                <button onClick={() => onDelete(sub.id)} title="Delete cue" className="px-2 py-0.5 bg-gray-600 hover:bg-red-600 rounded">
+                                    Delete
+                                </button>
+                            </div>
+                            {styleEditorId === sub.id && (
+                                <CueStyleEditor subtitle={sub} customization={customization} onChange={onStyleChange} customFonts={customFonts} />
+                            )}
                         </div>
                     );
                 })}
+                {interimCue && (
+                    <div className="p-2 rounded-md border border-dashed border-indigo-400 bg-indigo-900/20">
+                        <div className="flex items-center gap-2 text-xs text-indigo-300">
+                            <span className="w-2 h-2 rounded-full bg-indigo-400 animate-pulse" />
+                            Listening… from {new Date(interimCue.startTime * 1000).toISOString().substr(14, 5)}
+                        </div>
+                        <p className="italic text-gray-300">{interimCue.text}</p>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -227,65 +517,763 @@ const SubtitleList: React.FC<SubtitleListProps> = ({ subtitles, onUpdate, videoR
 export default function App() {
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
-  const [customization, setCustomization] = useState<CustomizationState>(INITIAL_CUSTOMIZATION_STATE);
+  const {
+    present: editorState,
+    set: setEditorState,
+    undo,
+    redo,
+    reset: resetEditorState,
+    canUndo,
+    canRedo,
+  } = useHistory<EditorState>(newEditorState(INITIAL_CUSTOMIZATION_STATE));
+  const { tracks, speakers, glossary, customization, analysis } = editorState;
+  // Which track is shown and edited is view state, so it stays out of undo/redo.
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [secondaryTrackId, setSecondaryTrackId] = useState<string | null>(null);
+  const [trackDialog, setTrackDialog] = useState<'new' | 'edit' | null>(null);
+  const [isTranslateOpen, setIsTranslateOpen] = useState(false);
+  const [readabilitySettings, setReadabilitySettings] = useState<ReadabilitySettings>(loadReadabilitySettings);
+  const [isReadabilityOpen, setIsReadabilityOpen] = useState(false);
+  const [isSpeakersOpen, setIsSpeakersOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [customPresets, setCustomPresets] = useState<StylePreset[]>(loadCustomPresets);
+  /** Families registered from font files, this session or a previous one. */
+  const [customFonts, setCustomFonts] = useState<string[]>([]);
+  /** Name of the diarization provider while detection runs. */
+  const [diarizingWith, setDiarizingWith] = useState<string | null>(null);
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
+  /** Name of the analysis provider while it reads the transcript. */
+  const [analyzingWith, setAnalyzingWith] = useState<string | null>(null);
+  const [translateProgress, setTranslateProgress] = useState<{ completed: number; total: number } | null>(null);
+  // Undo can remove the selected track, so fall back to the first one.
+  const activeTrack = tracks.find(t => t.id === activeTrackId) ?? tracks[0];
+  const secondaryTrack = tracks.find(t => t.id === secondaryTrackId && t.id !== activeTrack.id) ?? null;
+  const subtitles = activeTrack.subtitles;
+  const [focusRequest, setFocusRequest] = useState<{ id: number } | null>(null);
+  /** The cue whose text is being edited; review shortcuts act on it. */
+  const [editingCueId, setEditingCueId] = useState<number | null>(null);
+  const [loopCueId, setLoopCueId] = useState<number | null>(null);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [dragScope, setDragScope] = useState<DragScope>('all');
   const [isRecording, setIsRecording] = useState(false);
+  const [sessionHealth, setSessionHealth] = useState<SessionHealth>('idle');
+  const [inputLevel, setInputLevel] = useState<number | null>(null);
+  const [interim, setInterim] = useState<{ trackId: string; event: TranscriptEvent } | null>(null);
+  const interimCue = interim?.trackId === activeTrack.id ? interim.event : null;
+  const [audioSourceMode, setAudioSourceMode] = useState<AudioSourceMode>('microphone');
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(DEFAULT_TRANSCRIPTION_SETTINGS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [status, setStatus] = useState("Ready to generate subtitles.");
   const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [relinkProject, setRelinkProject] = useState<Project | null>(null);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: ParseResult } | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const videoContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const currentTranscription = useRef('');
-  const utteranceStartTime = useRef<number | null>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const sessionRef = useRef<TranscriptionSession | null>(null);
+  const audioCaptureRef = useRef<AudioCapture | null>(null);
+  // Bumped by cleanup() so a connection that completes after Stop is discarded.
+  const sessionAttemptRef = useRef(0);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const translateAbortRef = useRef<AbortController | null>(null);
+  const diarizeAbortRef = useRef<AbortController | null>(null);
+  const analyzeAbortRef = useRef<AbortController | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
   const videoUrlRef = useRef(videoUrl);
   videoUrlRef.current = videoUrl;
+  const latestProjectRef = useRef<Project | null>(null);
+  latestProjectRef.current = projectMeta ? { ...projectMeta, tracks, speakers, glossary, customization, analysis, updatedAt: 0 } : null;
+  const activeTrackIdRef = useRef(activeTrack.id);
+  activeTrackIdRef.current = activeTrack.id;
+
+  const isActiveAt = (s: Subtitle) => currentTime >= s.startTime && currentTime < s.endTime;
+  const activeSubtitle = subtitles.find(isActiveAt) || null;
+  // What viewers see, on screen and in exports: profanity masked, speakers labelled.
+  const presentText = (text: string) => maskProfanity(text, customization.profanityMask, customization.profanityWords);
+  const presentSubtitle = (sub: Subtitle) =>
+    labelSubtitle(maskSubtitle(sub, customization.profanityMask, customization.profanityWords), speakers, customization.speakerDisplay);
+  const shownSubtitle = activeSubtitle && presentSubtitle(activeSubtitle);
+  const secondarySubtitle = secondaryTrack?.subtitles.find(isActiveAt) || null;
+  const readabilityProfile = activeProfile(readabilitySettings);
+  const readabilityIssues = useMemo(() => validateSubtitles(subtitles, readabilityProfile), [subtitles, readabilityProfile]);
+
+  // Every edit goes through the undo history; `coalesceKey` groups rapid repeats into one step.
+  // Edits to a track that has since been deleted are dropped.
+  const setTrackSubtitles = useCallback((trackId: string, updater: (prev: Subtitle[]) => Subtitle[], coalesceKey?: string) => {
+    setEditorState(prev => {
+      const track = prev.tracks.find(t => t.id === trackId);
+      if (!track) return prev;
+      const next = updater(track.subtitles);
+      return next === track.subtitles
+        ? prev
+        : { ...prev, tracks: prev.tracks.map(t => t.id === trackId ? { ...t, subtitles: next } : t) };
+    }, coalesceKey);
+  }, [setEditorState]);
+
+  const setSubtitles = useCallback((updater: (prev: Subtitle[]) => Subtitle[], coalesceKey?: string) => {
+    setTrackSubtitles(activeTrackIdRef.current, updater, coalesceKey);
+  }, [setTrackSubtitles]);
+
+  const handleCustomizationUpdate = useCallback((update: Partial<CustomizationState>) => {
+    setEditorState(prev => ({ ...prev, customization: { ...prev.customization, ...update } }), `style:${Object.keys(update).join(',')}`);
+  }, [setEditorState]);
 
-  const activeSubtitle = subtitles.find(s => currentTime >= s.startTime && currentTime < s.endTime) || null;
+  const handleApplyPreset = (preset: StylePreset) => {
+    setEditorState(prev => ({ ...prev, customization: { ...prev.customization, ...preset.style } }));
+  };
+
+  const handleSavePreset = (name: string) => {
+    const style = presetStyleOf(customization);
+    setCustomPresets(prev => {
+      // Saving under an existing name updates that preset.
+      const existing = prev.find(p => p.name.toLowerCase() === name.toLowerCase());
+      return existing
+        ? prev.map(p => p === existing ? { ...p, name, style } : p)
+        : [...prev, { id: `preset-${Date.now()}`, name, style }];
+    });
+    setStatus(`Saved style preset "${name}".`);
+  };
 
-  const handleCustomizationUpdate = (update: Partial<CustomizationState>) => {
-    setCustomization(prev => ({ ...prev, ...update }));
+  const handleDeletePreset = (preset: StylePreset) => {
+    if (!window.confirm(`Delete the style preset "${preset.name}"?`)) return;
+    setCustomPresets(prev => prev.filter(p => p.id !== preset.id));
+  };
+
+  const handleLoadFont = async (file: File) => {
+    try {
+      const family = await loadFontFile(file);
+      setCustomFonts(prev => prev.includes(family) ? prev : [...prev, family].sort());
+      handleCustomizationUpdate({ fontFamily: family });
+      setStatus(`Loaded font "${family}".`);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRemoveFont = async (family: string) => {
+    try {
+      await removeFont(family);
+    } catch (error) {
+      console.error("Failed to remove font:", error);
+    }
+    setCustomFonts(prev => prev.filter(f => f !== family));
+    // The captions fall back to the browser default otherwise.
+    if (customization.fontFamily === family) handleCustomizationUpdate({ fontFamily: INITIAL_CUSTOMIZATION_STATE.fontFamily });
+  };
+
+  const handleCaptionPositionChange = useCallback((position: { x: number; y: number }, subtitleId: number | null) => {
+    if (subtitleId === null) {
+      handleCustomizationUpdate({ position });
+    } else {
+      setSubtitles(subs => subs.map(s => s.id === subtitleId ? setStyleOverride(s, 'position', position) : s), `position:${subtitleId}`);
+    }
+  }, [handleCustomizationUpdate, setSubtitles]);
+
+  const handleSubtitleStyleUpdate = (subtitle: Subtitle) => {
+    setSubtitles(subs => subs.map(s => s.id === subtitle.id ? subtitle : s), `cue-style:${subtitle.id}`);
   };
 
   const handleSubtitleTextUpdate = (id: number, text: string) => {
-    setSubtitles(subs => subs.map(s => s.id === id ? { ...s, text } : s));
+    setSubtitles(subs => subs.map(s => s.id === id ? { ...s, text } : s), `text:${id}`);
   };
-  
-  const cleanup = useCallback(() => {
-    if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => track.stop());
-        mediaStreamRef.current = null;
+
+  const handleSubtitleTimingUpdate = useCallback((id: number, startTime: number, endTime: number) => {
+    setSubtitles(subs => sortByStartTime(subs.map(s => s.id !== id ? s : {
+      ...s,
+      startTime,
+      endTime,
+      words: s.words && retimeWords(s.words, { start: s.startTime, end: s.endTime }, { start: startTime, end: endTime }),
+    })), `timing:${id}`);
+  }, [setSubtitles]);
+
+  const handleSplitSubtitle = (id: number, position: number) => {
+    setSubtitles(subs => splitSubtitle(subs, id, position));
+  };
+
+  const handleMergeSubtitle = (id: number) => {
+    setSubtitles(subs => mergeWithNext(subs, id));
+  };
+
+  const handleDeleteSubtitle = (id: number) => {
+    setSubtitles(subs => deleteSubtitle(subs, id));
+  };
+
+  const handleInsertSubtitle = () => {
+    const { subtitles: next, id } = insertSubtitleAt(subtitles, videoRef.current?.currentTime ?? currentTime);
+    setSubtitles(() => next);
+    setFocusRequest({ id });
+  };
+
+  const handleSeek = useCallback((time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
     }
-    if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.disconnect();
-        scriptProcessorRef.current = null;
+    setCurrentTime(time);
+  }, []);
+
+  // --- REVIEW SHORTCUTS ---
+
+  /** The cue shortcuts act on: the one being edited, else the one under the playhead. */
+  const currentCue = (time: number) => subtitles.find(s => s.id === editingCueId) ?? cueAt(subtitles, time);
+
+  const handleSetCueEdge = (edge: 'start' | 'end') => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    // Between cues, setting a start pulls in the next cue and setting an end stretches the last one.
+    const cue = currentCue(time) ?? (edge === 'start' ? nextCue(subtitles, time) : lastEndedCue(subtitles, time));
+    if (!cue) return;
+    const { startTime, endTime } = withEdgeAt(cue, edge, time);
+    handleSubtitleTimingUpdate(cue.id, startTime, endTime);
+  };
+
+  /** `play()` rejects with an AbortError when a pause or seek interrupts it; other failures (e.g. blocked autoplay) are reported. */
+  const playVideo = (video: HTMLVideoElement) => {
+    video.play().catch(error => {
+      if ((error as Error).name === 'AbortError') return;
+      console.error("Playback failed:", error);
+      setStatus(`Error: Couldn't play the video. ${(error as Error).message}`);
+    });
+  };
+
+  const handleToggleLoop = () => {
+    if (loopCueId !== null) {
+      setLoopCueId(null);
+      return;
     }
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
+    const time = videoRef.current?.currentTime ?? currentTime;
+    const cue = currentCue(time) ?? lastEndedCue(subtitles, time);
+    if (!cue) return;
+    setLoopCueId(cue.id);
+    handleSeek(cue.startTime);
+    if (videoRef.current) playVideo(videoRef.current);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    if (action === 'showShortcuts') {
+      setIsShortcutsOpen(true);
+      return;
     }
-    sessionPromiseRef.current?.then(session => session.close());
-    sessionPromiseRef.current = null;
+    const video = videoRef.current;
+    if (!video) return;
+    const time = video.currentTime;
+    const seekBy = (delta: number) => handleSeek(Math.max(0, Math.min(duration || Infinity, time + delta)));
+    switch (action) {
+      case 'playPause':
+        if (video.paused) playVideo(video);
+        else video.pause();
+        break;
+      case 'frameBack':
+      case 'frameForward':
+        video.pause();
+        seekBy(action === 'frameForward' ? FRAME_DURATION : -FRAME_DURATION);
+        break;
+      case 'secondBack':
+        seekBy(-1);
+        break;
+      case 'secondForward':
+        seekBy(1);
+        break;
+      case 'previousCue':
+      case 'nextCue': {
+        const cue = action === 'nextCue' ? nextCue(subtitles, time) : previousCue(subtitles, time);
+        if (cue) handleSeek(cue.startTime);
+        break;
+      }
+      case 'setCueStart':
+        handleSetCueEdge('start');
+        break;
+      case 'setCueEnd':
+        handleSetCueEdge('end');
+        break;
+      case 'loopCue':
+        handleToggleLoop();
+        break;
+      case 'focusCueText': {
+        const cue = cueAt(subtitles, time) ?? lastEndedCue(subtitles, time) ?? nextCue(subtitles, time);
+        if (cue) setFocusRequest({ id: cue.id });
+        break;
+      }
+    }
+  };
+  // The keydown listener below outlives renders; this keeps it calling the latest closure.
+  const runShortcutRef = useRef(runShortcut);
+  runShortcutRef.current = runShortcut;
+
+  const loopCue = subtitles.find(s => s.id === loopCueId) ?? null;
+  const loopTime = usePlaybackTime(videoRef, loopCue !== null);
+  
+  const cleanup = useCallback(() => {
+    sessionAttemptRef.current++;
+    audioCaptureRef.current?.stop();
+    audioCaptureRef.current = null;
+    sessionRef.current?.close();
+    sessionRef.current = null;
     setIsRecording(false);
+    setSessionHealth('idle');
+    setInputLevel(null);
+    setInterim(null);
     setStatus("Ready to generate subtitles.");
     videoRef.current?.pause();
   }, []);
 
-  const handleVideoSelected = (file: File) => {
+  /** New cues from transcription get the glossary's spellings on the way in. */
+  const addTranscribedCues = useCallback((trackId: string, cues: Subtitle[]) => {
+    setEditorState(prev => {
+      const track = prev.tracks.find(t => t.id === trackId);
+      if (!track) return prev;
+      const corrected = applyGlossary(cues, prev.glossary).subtitles;
+      const subtitles = sortByStartTime([...track.subtitles, ...corrected]);
+      return { ...prev, tracks: prev.tracks.map(t => t.id === trackId ? { ...t, subtitles } : t) };
+    });
+  }, [setEditorState]);
+
+  const handleTranscript = (trackId: string, event: TranscriptEvent) => {
+    if (event.type === 'partial') {
+      setInterim(event.text ? { trackId, event } : null);
+      return;
+    }
+    setInterim(null);
+    const newSubtitle: Subtitle = {
+        id: createSubtitleId(),
+        text: event.text,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        words: event.words,
+    };
+    addTranscribedCues(trackId, [newSubtitle]);
+  };
+
+  const handleAlignWords = () => {
+    setSubtitles(subs => subs.map(s => ({ ...s, words: alignWords(s, waveform) })));
+    setStatus(waveform
+      ? `Aligned words in ${subtitles.length} cues to the audio.`
+      : `Spread words evenly over ${subtitles.length} cues; the audio waveform isn't ready yet.`);
+  };
+
+  const handleAutoFix = () => {
+    const { subtitles: fixed, changed } = autoFixSubtitles(subtitles, readabilityProfile);
+    if (changed > 0) setTrackSubtitles(activeTrack.id, () => fixed);
+    const remaining = validateSubtitles(fixed, readabilityProfile).size;
+    setStatus(`Auto-fix adjusted ${changed} cues.${remaining > 0 ? ` ${remaining} still break the rules and need a manual edit.` : ''}`);
+  };
+
+  const handleReplace = (replace: (subtitles: Subtitle[]) => ReplaceResult) => {
+    const { subtitles: next, count } = replace(subtitles);
+    if (count > 0) setTrackSubtitles(activeTrack.id, () => next);
+    setStatus(count > 0 ? `Replaced ${count} ${count === 1 ? 'match' : 'matches'}.` : "Nothing left to replace.");
+  };
+
+  // --- GLOSSARY ---
+
+  const handleGlossaryChange = (next: GlossaryEntry[], coalesceKey?: string) => {
+    setEditorState(prev => ({ ...prev, glossary: next }), coalesceKey);
+  };
+
+  const handleApplyGlossary = () => {
+    const { subtitles: corrected, count } = applyGlossary(subtitles, glossary);
+    if (count > 0) setTrackSubtitles(activeTrack.id, () => corrected);
+    setStatus(count > 0 ? `Glossary respelled ${count} words in "${activeTrack.name}".` : `"${activeTrack.name}" already follows the glossary.`);
+  };
+
+  // --- SPEAKERS ---
+
+  /** Replaces the roster; cues assigned to a removed speaker lose the assignment. */
+  const handleSpeakersChange = (next: Speaker[], coalesceKey?: string) => {
+    setEditorState(prev => ({
+      ...prev,
+      speakers: next,
+      tracks: prev.tracks.map(t => {
+        const pruned = pruneSpeakerIds(t.subtitles, next);
+        return pruned === t.subtitles ? t : { ...t, subtitles: pruned };
+      }),
+    }), coalesceKey);
+  };
+
+  const handleAssignSpeaker = (id: number, speakerId: string | null) => {
+    setSubtitles(subs => subs.map(s => {
+      if (s.id !== id) return s;
+      if (speakerId !== null) return { ...s, speakerId };
+      const { speakerId: _cleared, ...rest } = s;
+      return rest;
+    }));
+  };
+
+  const handleDetectSpeakers = async (providerId: DiarizationProviderId) => {
+    if (!videoFile) return;
+    setIsSpeakersOpen(false);
+    let provider;
+    try {
+      provider = createDiarizationProvider(providerId);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+      return;
+    }
+
+    const trackId = activeTrack.id;
+    const cues = activeTrack.subtitles;
+    const controller = new AbortController();
+    diarizeAbortRef.current = controller;
+    setDiarizingWith(provider.name);
+    try {
+      const labels = await provider.diarize(videoFile, cues, controller.signal);
+      const byId = new Map(cues.map((cue, i) => [cue.id, labels[i]]));
+      setEditorState(prev => {
+        const track = prev.tracks.find(t => t.id === trackId);
+        if (!track) return prev;
+        // Cues edited meanwhile keep their ids, so match labels by id rather than position.
+        const result = assignSpeakers(track.subtitles, track.subtitles.map(s => byId.get(s.id)), prev.speakers);
+        return {
+          ...prev,
+          speakers: result.speakers,
+          tracks: prev.tracks.map(t => t.id === trackId ? { ...t, subtitles: result.subtitles } : t),
+        };
+      });
+      setStatus(`${provider.name} found ${new Set(labels.filter(Boolean)).size} speakers in ${cues.length} cues.`);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        setStatus("Speaker detection cancelled.");
+      } else {
+        console.error("Speaker detection failed:", error);
+        setStatus(`Error: ${(error as Error).message}`);
+      }
+    } finally {
+      if (diarizeAbortRef.current === controller) diarizeAbortRef.current = null;
+      setDiarizingWith(null);
+    }
+  };
+
+  const handleAnalyzeTranscript = async (providerId: AnalysisProviderId) => {
+    setIsAnalysisOpen(false);
+    let analyzer;
+    try {
+      analyzer = createTranscriptAnalyzer(providerId);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+      return;
+    }
+
+    const trackId = activeTrack.id;
+    // Analysed as viewers read it, though the speaker prefix would only add noise.
+    const cues = activeTrack.subtitles.map(sub => maskSubtitle(sub, customization.profanityMask, customization.profanityWords));
+    const controller = new AbortController();
+    analyzeAbortRef.current?.abort();
+    analyzeAbortRef.current = controller;
+    setAnalyzingWith(analyzer.name);
+    try {
+      const raw = await analyzer.analyze(cues, controller.signal);
+      const result: TranscriptAnalysis = { trackId, createdAt: Date.now(), ...resolveAnalysis(raw, cues) };
+      setEditorState(prev => ({ ...prev, analysis: result }));
+      setStatus(`${analyzer.name} found ${result.chapters.length} chapters and ${result.keywords.length} keywords.`);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        setStatus("Transcript analysis cancelled.");
+      } else {
+        console.error("Transcript analysis failed:", error);
+        setStatus(`Error: ${(error as Error).message}`);
+      }
+    } finally {
+      if (analyzeAbortRef.current === controller) analyzeAbortRef.current = null;
+      setAnalyzingWith(null);
+    }
+  };
+
+  // --- TRACKS ---
+
+  const handleSaveTrack = (name: string, language: string) => {
+    if (trackDialog === 'new') {
+      const track = createTrack(name, language);
+      setEditorState(prev => ({ ...prev, tracks: [...prev.tracks, track] }));
+      setActiveTrackId(track.id);
+    } else {
+      const id = activeTrack.id;
+      setEditorState(prev => ({ ...prev, tracks: prev.tracks.map(t => t.id === id ? { ...t, name, language } : t) }));
+    }
+    setTrackDialog(null);
+  };
+
+  const handleDeleteTrack = () => {
+    if (tracks.length < 2) return;
+    if (activeTrack.subtitles.length > 0 && !window.confirm(`Delete track "${activeTrack.name}" and its ${activeTrack.subtitles.length} subtitles?`)) return;
+    const id = activeTrack.id;
+    setEditorState(prev => ({ ...prev, tracks: prev.tracks.filter(t => t.id !== id) }));
+    setActiveTrackId(null);
+  };
+
+  const handleTranslateTrack = async ({ target, providerId }: TranslateRequest) => {
+    setIsTranslateOpen(false);
+    const source = activeTrack;
+    let provider;
+    try {
+      provider = createTranslationProvider(providerId);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    translateAbortRef.current = controller;
+    setTranslateProgress({ completed: 0, total: source.subtitles.length });
+    try {
+      const translated = await translateCues(source.subtitles, {
+        provider,
+        source: source.language,
+        target,
+        signal: controller.signal,
+        onProgress: (completed) => setTranslateProgress({ completed, total: source.subtitles.length }),
+      });
+      const track = createTrack(`${source.name} → ${languageName(target)}`, target, translated);
+      setEditorState(prev => ({ ...prev, tracks: [...prev.tracks, track] }));
+      setActiveTrackId(track.id);
+      setStatus(`Translated ${translated.length} subtitles into ${languageName(target)} with ${provider.name}.`);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        setStatus("Translation cancelled.");
+      } else {
+        console.error("Translation failed:", error);
+        setStatus(`Error: ${(error as Error).message}`);
+      }
+    } finally {
+      if (translateAbortRef.current === controller) translateAbortRef.current = null;
+      setTranslateProgress(null);
+    }
+  };
+
+  const refreshProjects = useCallback(() => {
+    listProjects().then(setProjects).catch(error => console.error("Failed to list projects:", error));
+  }, []);
+
+  /** Saves the open project, if any, before the editor is pointed at something else. Resolves once saved. */
+  const leaveProject = (): Promise<void> => {
+    const project = latestProjectRef.current;
+    setProjectMeta(null);
+    if (!project) return Promise.resolve();
+    return saveProject({ ...project, updatedAt: Date.now() }).catch(error => console.error("Failed to save project:", error));
+  };
+
+  /** Resolves once the project being left, if any, has been saved. */
+  const loadVideo = (file: File | null, state: EditorState): Promise<void> => {
+    const saved = leaveProject();
     cleanup();
+    batchAbortRef.current?.abort();
+    translateAbortRef.current?.abort();
+    diarizeAbortRef.current?.abort();
+    analyzeAbortRef.current?.abort();
+    renderAbortRef.current?.abort();
     if (videoUrlRef.current) {
       URL.revokeObjectURL(videoUrlRef.current);
     }
     setVideoFile(file);
-    setVideoUrl(URL.createObjectURL(file));
-    setSubtitles([]);
+    setVideoUrl(file ? URL.createObjectURL(file) : null);
+    resetEditorState(state);
+    setActiveTrackId(state.tracks[0]?.id ?? null);
+    setSecondaryTrackId(null);
     setCurrentTime(0);
     if (videoRef.current) videoRef.current.currentTime = 0;
     setStatus("Ready to generate subtitles.");
+    return saved;
+  };
+
+  const handleVideoSelected = async (file: File) => {
+    if (relinkProject) {
+      await handleRelinkVideo(relinkProject, file);
+      return;
+    }
+    loadVideo(file, newEditorState(customization));
+    // The project is created either way, so it autosaves even if the video can't be kept.
+    let hash = '';
+    try {
+      hash = await fingerprintFile(file);
+      await storeVideoBlob(hash, file);
+    } catch (error) {
+      console.error("Failed to store video:", error);
+      setStatus(`Error: Couldn't keep a copy of the video (${(error as Error).message}). The project still saves, but reopening it will ask for the video again.`);
+    }
+    setProjectMeta({
+      id: createProjectId(),
+      name: baseName(file.name),
+      createdAt: Date.now(),
+      video: { fileName: file.name, type: file.type, size: file.size, hash },
+    });
+  };
+
+  const openProjectWithVideo = (project: Project, file: File) => {
+    loadVideo(file, { tracks: project.tracks, speakers: project.speakers, glossary: project.glossary, customization: project.customization, analysis: project.analysis });
+    const { tracks: _tracks, speakers: _speakers, glossary: _glossary, customization: _customization, analysis: _analysis, updatedAt: _updatedAt, ...meta } = project;
+    setProjectMeta(meta);
+    setRelinkProject(null);
+    setStatus(`Opened project "${project.name}".`);
+  };
+
+  // The project picker shows no status line, so failures there are reported with an alert.
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) return refreshProjects();
+      const blob = await getVideoBlob(project.video.hash);
+      if (blob) {
+        openProjectWithVideo(project, new File([blob], project.video.fileName, { type: project.video.type || blob.type }));
+      } else {
+        setRelinkProject(project);
+      }
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      window.alert(`Couldn't open the project: ${(error as Error).message}`);
+    }
+  };
+
+  const handleRelinkVideo = async (project: Project, file: File) => {
+    try {
+      const hash = await fingerprintFile(file);
+      // Projects whose video couldn't be fingerprinted have no hash to check against.
+      if (project.video.hash && hash !== project.video.hash && !window.confirm(
+        `"${file.name}" doesn't match the video this project was made with (${project.video.fileName}). Timings may be off. Use it anyway?`
+      )) {
+        return;
+      }
+      await storeVideoBlob(hash, file);
+      const relinked: Project = { ...project, video: { fileName: file.name, type: file.type, size: file.size, hash } };
+      await saveProject({ ...relinked, updatedAt: Date.now() });
+      openProjectWithVideo(relinked, file);
+    } catch (error) {
+      console.error("Failed to relink video:", error);
+      window.alert(`Couldn't use ${file.name} for "${project.name}": ${(error as Error).message}`);
+    }
+  };
+
+  const currentProject = (): Project | null =>
+    projectMeta ? { ...projectMeta, tracks, speakers, glossary, customization, analysis, updatedAt: Date.now() } : null;
+
+  const handleCloseProject = async () => {
+    await loadVideo(null, newEditorState(customization));
+    refreshProjects();
+  };
+
+  // Called with an id from the project picker, which has no status line; without one for the open project.
+  const handleDownloadProject = async (id?: string) => {
+    try {
+      const project = id ? await getProject(id) : currentProject();
+      if (!project) return;
+      downloadTextFile(serializeProject(project), `${project.name}.subtitle-project.json`, 'application/json');
+    } catch (error) {
+      console.error("Failed to export project:", error);
+      const message = `Couldn't export the project: ${(error as Error).message}`;
+      if (id) window.alert(message);
+      else setStatus(`Error: ${message}`);
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const imported = parseProjectFile(await file.text());
+      await saveProject({ ...imported, id: createProjectId() });
+      refreshProjects();
+    } catch (error) {
+      console.error("Failed to import project:", error);
+      window.alert(`Couldn't import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleProjectAction = <A extends unknown[]>(action: (...args: A) => Promise<unknown>) => async (...args: A) => {
+    try {
+      await action(...args);
+    } catch (error) {
+      console.error("Project action failed:", error);
+    }
+    refreshProjects();
+  };
+
+  const onSubtitleInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if(e.target) e.target.value = '';
+    if (!file) return;
+    try {
+      const content = await file.text();
+      setPendingImport({ fileName: file.name, result: parseSubtitleFile(content, file.name) });
+    } catch (error) {
+      console.error("Failed to read subtitle file:", error);
+      setStatus(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImportConfirm = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    const imported = pendingImport.result.subtitles;
+    setSubtitles(prev => sortByStartTime(mode === 'replace' ? imported : [...prev, ...imported]));
+    setStatus(`Imported ${imported.length} subtitles from ${pendingImport.fileName}.`);
+    setPendingImport(null);
+  };
+
+  const handleExport = (format: SubtitleFormat) => {
+    const { extension, mimeType } = SUBTITLE_FORMATS.find(f => f.format === format)!;
+    const subtitles = activeTrack.subtitles.map(presentSubtitle);
+    let content: string;
+    if (format === 'srt') {
+      content = toSRT(subtitles);
+    } else if (format === 'vtt') {
+      content = toVTT(subtitles);
+    } else {
+      // Font sizes are authored in on-screen px, so scale them from the player to the native resolution.
+      const video = videoRef.current;
+      const referenceHeight = videoContainerRef.current?.clientHeight || 360;
+      content = toASS(subtitles, customization, {
+        width: video?.videoWidth || 1920,
+        height: video?.videoHeight || 1080,
+        referenceHeight,
+      });
+    }
+    const name = videoFile ? baseName(videoFile.name) : 'subtitles';
+    const language = activeTrack.language === 'und' ? '' : `.${activeTrack.language}`;
+    downloadTextFile(content, `${name}${language}.${extension}`, mimeType);
+  };
+
+  const handleExportChapters = (format: ChapterFormat) => {
+    if (!analysis) return;
+    const { fileSuffix, mimeType } = CHAPTER_FORMATS.find(f => f.format === format)!;
+    const content = format === 'youtube' ? toYouTubeChapters(analysis.chapters, duration) : toVTTChapters(analysis.chapters, duration);
+    downloadTextFile(content, `${videoFile ? baseName(videoFile.name) : 'video'}${fileSuffix}`, mimeType);
+  };
+
+  const handleRenderVideo = async () => {
+    if (!videoFile || renderAbortRef.current) return;
+    if (typeof MediaRecorder === 'undefined') {
+      setStatus("Error: This browser can't record video (MediaRecorder is unavailable).");
+      return;
+    }
+    cleanup();
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    setRenderProgress(0);
+    try {
+      const blob = await renderBurnedInVideo({
+        file: videoFile,
+        subtitles: subtitles.map(presentSubtitle),
+        secondarySubtitles: secondaryTrack?.subtitles.map(s => maskSubtitle(s, customization.profanityMask, customization.profanityWords)),
+        customization,
+        referenceHeight: videoContainerRef.current?.clientHeight || 360,
+        signal: controller.signal,
+        onProgress: setRenderProgress,
+      });
+      downloadBlob(blob, `${baseName(videoFile.name)}-captioned.webm`);
+      setStatus("Rendered video downloaded.");
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        setStatus("Render cancelled.");
+      } else {
+        console.error("Failed to render video:", error);
+        setStatus(`Error: ${(error as Error).message}`);
+      }
+    } finally {
+      if (renderAbortRef.current === controller) renderAbortRef.current = null;
+      setRenderProgress(null);
+    }
   };
 
   const onFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -302,87 +1290,100 @@ export default function App() {
       return;
     }
 
-    if (!process.env.API_KEY) {
-        setStatus("Error: API_KEY environment variable not set.");
-        return;
-    }
+    const attempt = ++sessionAttemptRef.current;
+    // Transcripts keep going to this track even if another is selected meanwhile.
+    const trackId = activeTrack.id;
+    const getTime = () => videoRef.current?.currentTime ?? 0;
+    const fail = (error: Error) => {
+        cleanup();
+        setSessionHealth('error');
+        setStatus(`Error: ${error.message} Please try again.`);
+    };
 
     try {
-        setStatus("Initializing...");
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        sessionPromiseRef.current = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-            config: {
-                inputAudioTranscription: {},
-                responseModalities: [Modality.AUDIO],
+        const provider = createTranscriptionProvider(transcriptionSettings);
+        setSessionHealth('connecting');
+        setStatus(`Connecting to ${provider.name}...`);
+        const session = await connectWithReconnect(provider, getTime, {
+            onTranscript: (event) => handleTranscript(trackId, event),
+            onError: fail,
+            onReconnecting: (attempt, delayMs, reason) => {
+                console.warn("Transcription session dropped:", reason);
+                setSessionHealth('reconnecting');
+                setStatus(`Connection lost. Reconnecting in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt} of ${DEFAULT_RECONNECT_OPTIONS.maxAttempts})... Audio is buffered meanwhile.`);
             },
-            callbacks: {
-                onopen: async () => {
-                    setStatus("Connecting to microphone...");
-                    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-                    mediaStreamRef.current = stream;
-
-                    const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-                    audioContextRef.current = context;
-                    
-                    const source = context.createMediaStreamSource(stream);
-                    const processor = context.createScriptProcessor(4096, 1, 1);
-                    scriptProcessorRef.current = processor;
-
-                    processor.onaudioprocess = (audioProcessingEvent) => {
-                        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                        const pcmBlob = createBlob(inputData);
-                        sessionPromiseRef.current?.then((session) => {
-                            session.sendRealtimeInput({ media: pcmBlob });
-                        });
-                    };
-
-                    source.connect(processor);
-                    processor.connect(context.destination);
-                    
-                    setIsRecording(true);
-                    setStatus("Recording... Speak to create subtitles.");
-                    videoRef.current?.play();
-                },
-                onmessage: (message: LiveServerMessage) => {
-                    if (message.serverContent?.inputTranscription) {
-                        const { text } = message.serverContent.inputTranscription;
-                        if (currentTranscription.current === '' && videoRef.current) {
-                            utteranceStartTime.current = videoRef.current.currentTime;
-                        }
-                        currentTranscription.current += text;
-                    }
-
-                    if (message.serverContent?.turnComplete) {
-                        if (currentTranscription.current.trim() && videoRef.current) {
-                            const newSubtitle: Subtitle = {
-                                id: Date.now(),
-                                text: currentTranscription.current.trim(),
-                                startTime: utteranceStartTime.current ?? videoRef.current.currentTime,
-                                endTime: videoRef.current.currentTime,
-                            };
-                            setSubtitles(prev => [...prev, newSubtitle].sort((a,b) => a.startTime - b.startTime));
-                        }
-                        currentTranscription.current = '';
-                        utteranceStartTime.current = null;
-                    }
-                },
-                onerror: (e) => {
-                    console.error("Gemini API Error:", e);
-                    setStatus(`Error: ${e.type}. Please try again.`);
-                    cleanup();
-                },
-                onclose: () => {
-                    cleanup();
-                },
+            onReconnected: () => {
+                setSessionHealth('open');
+                setStatus(`Reconnected to ${provider.name}. Buffered audio replayed.`);
             },
         });
-        await sessionPromiseRef.current;
+        if (attempt !== sessionAttemptRef.current) {
+            session.close();
+            return;
+        }
+        sessionRef.current = session;
+
+        if (provider.requiresAudio) {
+            if (audioSourceMode === 'microphone') setStatus("Connecting to microphone...");
+            const capture = await startAudioCapture(audioSourceMode, videoRef.current, (samples) => {
+                setInputLevel(measureLevel(samples));
+                sessionRef.current?.sendAudio(samples);
+            });
+            if (attempt !== sessionAttemptRef.current) {
+                capture.stop();
+                return;
+            }
+            audioCaptureRef.current = capture;
+        }
+
+        setIsRecording(true);
+        setSessionHealth('open');
+        setStatus(!provider.requiresAudio
+            ? `Recording... ${provider.name} is replaying its script.`
+            : audioSourceMode === 'video'
+                ? "Recording... Transcribing the video's audio."
+                : "Recording... Speak to create subtitles.");
+        if (videoRef.current) playVideo(videoRef.current);
     } catch (error) {
         console.error("Failed to start recording:", error);
+        fail(error as Error);
+    }
+  };
+
+  const handleBatchTranscribe = async () => {
+    if (!videoFile) return;
+
+    let backend;
+    if (process.env.TRANSCRIPTION_SERVER_URL) {
+      backend = createHttpBatchBackend(process.env.TRANSCRIPTION_SERVER_URL);
+    } else if (process.env.API_KEY) {
+      backend = createGeminiBatchBackend(process.env.API_KEY);
+    } else {
+      setStatus("Error: API_KEY environment variable not set.");
+      return;
+    }
+
+    const trackId = activeTrack.id;
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    try {
+      const created = await transcribeFile(videoFile, {
+        backend,
+        signal: controller.signal,
+        onProgress: setBatchProgress,
+        onSubtitles: (newSubtitles) => addTranscribedCues(trackId, newSubtitles),
+      });
+      setStatus(`Batch transcription complete: ${created.length} subtitles added.`);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        setStatus("Batch transcription cancelled.");
+      } else {
+        console.error("Batch transcription failed:", error);
         setStatus(`Error: ${(error as Error).message}`);
-        cleanup();
+      }
+    } finally {
+      if (batchAbortRef.current === controller) batchAbortRef.current = null;
+      setBatchProgress(null);
     }
   };
 
@@ -391,15 +1392,132 @@ export default function App() {
     const handleTimeUpdate = () => {
       if(video) setCurrentTime(video.currentTime);
     };
+    const handleDurationChange = () => {
+      if(video && Number.isFinite(video.duration)) setDuration(video.duration);
+    };
     video?.addEventListener('timeupdate', handleTimeUpdate);
+    video?.addEventListener('durationchange', handleDurationChange);
     return () => {
         video?.removeEventListener('timeupdate', handleTimeUpdate);
+        video?.removeEventListener('durationchange', handleDurationChange);
     };
   }, [videoUrl]);
 
+  useEffect(() => {
+    setWaveform(null);
+    if (!videoFile) return;
+    let cancelled = false;
+    loadWaveform(videoFile)
+      .then(result => { if (!cancelled) setWaveform(result); })
+      .catch(error => console.error("Failed to decode waveform:", error));
+    return () => { cancelled = true; };
+  }, [videoFile]);
+
+  useEffect(() => {
+    refreshProjects();
+  }, [refreshProjects]);
+
+  useEffect(() => {
+    saveReadabilitySettings(readabilitySettings);
+  }, [readabilitySettings]);
+
+  useEffect(() => {
+    saveCustomPresets(customPresets);
+  }, [customPresets]);
+
+  useEffect(() => {
+    saveKeymap(keymap);
+  }, [keymap]);
+
+  // Jump back at the end of a looped cue. Seeking elsewhere, or deleting the cue, ends the loop.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || loopCueId === null) return;
+    if (!loopCue) {
+      setLoopCueId(null);
+      return;
+    }
+    const time = video.currentTime;
+    if (time >= loopCue.endTime && time < loopCue.endTime + LOOP_SEEK_TOLERANCE) {
+      video.currentTime = loopCue.startTime;
+    } else if (time < loopCue.startTime - LOOP_SEEK_TOLERANCE || time >= loopCue.endTime) {
+      setLoopCueId(null);
+    }
+  }, [loopTime, loopCue, loopCueId]);
+
+  useEffect(() => {
+    restoreFonts()
+      .then(families => setCustomFonts(families.sort()))
+      .catch(error => console.error("Failed to restore fonts:", error));
+  }, []);
+
+  // Autosave shortly after every change to the open project.
+  useEffect(() => {
+    if (!projectMeta) return;
+    const timer = setTimeout(() => {
+      const project = latestProjectRef.current;
+      if (project) saveProject({ ...project, updatedAt: Date.now() }).catch(error => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectMeta, tracks, speakers, glossary, customization, analysis]);
+
+  useEffect(() => {
+    // Best effort: flush a pending autosave if the tab is closed inside the debounce window.
+    const handlePageHide = () => {
+      const project = latestProjectRef.current;
+      if (project) saveProject({ ...project, updatedAt: Date.now() }).catch(error => {
+        console.error("Failed to save project:", error);
+        setStatus(`Error: Couldn't save the project before leaving: ${(error as Error).message}`);
+      });
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
+
+  const isDialogOpen = !!pendingImport || !!trackDialog || isTranslateOpen || isReadabilityOpen || isSpeakersOpen || isGlossaryOpen || isAnalysisOpen || isSettingsOpen || isShortcutsOpen;
+
+  useEffect(() => {
+    if (isDialogOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Controlled cue textareas have no useful native undo, so ours takes over there;
+      // other fields (search boxes, settings) keep the browser's own.
+      if (isEditableField(e.target) && !e.target.matches('[data-cue-text]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, isDialogOpen]);
+
+  useEffect(() => {
+    if (isDialogOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = keyComboFromEvent(e);
+      if (!combo || focusOwnsKey(e.target, combo)) return;
+      const action = actionForCombo(keymap, combo);
+      if (!action) return;
+      e.preventDefault();
+      runShortcutRef.current(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, isDialogOpen]);
+
   useEffect(() => {
     return () => {
       cleanup();
+      batchAbortRef.current?.abort();
+      translateAbortRef.current?.abort();
+      diarizeAbortRef.current?.abort();
+      analyzeAbortRef.current?.abort();
+      renderAbortRef.current?.abort();
       if (videoUrlRef.current) {
         URL.revokeObjectURL(videoUrlRef.current);
       }
@@ -415,48 +1533,301 @@ export default function App() {
         onChange={onFileInputChange} 
         className="hidden" 
       />
-      <header className="flex-shrink-0">
-          <h1 className="text-3xl font-bold text-center text-indigo-400">AI Video Subtitle Generator</h1>
+      <input
+        type="file"
+        accept=".srt,.vtt,.ass,.ssa"
+        ref={subtitleInputRef}
+        onChange={onSubtitleInputChange}
+        className="hidden"
+      />
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          existingCount={subtitles.length}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {trackDialog && (
+        <TrackDialog
+          title={trackDialog === 'new' ? 'New Track' : 'Edit Track'}
+          initialName={trackDialog === 'new' ? `Track ${tracks.length + 1}` : activeTrack.name}
+          initialLanguage={trackDialog === 'new' ? 'und' : activeTrack.language}
+          onSave={handleSaveTrack}
+          onCancel={() => setTrackDialog(null)}
+        />
+      )}
+      {isTranslateOpen && (
+        <TranslateDialog track={activeTrack} onTranslate={handleTranslateTrack} onCancel={() => setIsTranslateOpen(false)} />
+      )}
+      {isReadabilityOpen && (
+        <ReadabilityDialog settings={readabilitySettings} onChange={setReadabilitySettings} onClose={() => setIsReadabilityOpen(false)} />
+      )}
+      {isSpeakersOpen && (
+        <SpeakerDialog
+          speakers={speakers}
+          cueCounts={subtitles.reduce((counts, s) => s.speakerId ? counts.set(s.speakerId, (counts.get(s.speakerId) ?? 0) + 1) : counts, new Map<string, number>())}
+          onChange={handleSpeakersChange}
+          trackCueCount={subtitles.length}
+          onDetect={handleDetectSpeakers}
+          onClose={() => setIsSpeakersOpen(false)}
+        />
+      )}
+      {isGlossaryOpen && (
+        <GlossaryDialog glossary={glossary} onChange={handleGlossaryChange} onApplyToTrack={handleApplyGlossary} onClose={() => setIsGlossaryOpen(false)} />
+      )}
+      {isAnalysisOpen && (
+        <AnalysisDialog
+          analysis={analysis}
+          analysisTrackName={tracks.find(t => t.id === analysis?.trackId)?.name ?? null}
+          trackName={activeTrack.name}
+          trackCueCount={subtitles.length}
+          duration={duration}
+          onAnalyze={handleAnalyzeTranscript}
+          onSeek={(time) => { handleSeek(time); setIsAnalysisOpen(false); }}
+          onClear={() => setEditorState(prev => ({ ...prev, analysis: null }))}
+          onClose={() => setIsAnalysisOpen(false)}
+        />
+      )}
+      {isShortcutsOpen && (
+        <ShortcutsDialog keymap={keymap} onChange={setKeymap} onClose={() => setIsShortcutsOpen(false)} />
+      )}
+      {isSettingsOpen && (
+        <SettingsDialog
+          settings={transcriptionSettings}
+          onUpdate={(update) => setTranscriptionSettings(prev => ({ ...prev, ...update }))}
+          disabled={isRecording}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+      <header className="flex-shrink-0 relative">
+          {videoUrl && (
+            <button onClick={handleCloseProject} title="Save and go back to the project list" className="absolute left-0 top-1/2 -translate-y-1/2 px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+                ← Projects
+            </button>
+          )}
+          <h1 className="text-3xl font-bold text-center text-indigo-400">{projectMeta ? projectMeta.name : 'AI Video Subtitle Generator'}</h1>
+          <button
+            onClick={() => setIsShortcutsOpen(true)}
+            title={`Keyboard shortcuts${keymap.showShortcuts ? ` (${formatKeyCombo(keymap.showShortcuts)})` : ''}`}
+            aria-label="Keyboard shortcuts"
+            className="absolute right-10 top-1/2 -translate-y-1/2 p-2 text-xl leading-none text-gray-400 hover:text-white transition-colors"
+          >
+              ⌨
+          </button>
+          <button onClick={() => setIsSettingsOpen(true)} title="Transcription settings" aria-label="Transcription settings" className="absolute right-0 top-1/2 -translate-y-1/2 p-2 text-gray-400 hover:text-white transition-colors">
+              <SettingsIcon className="w-6 h-6" />
+          </button>
       </header>
       <main className="flex-grow flex flex-col md:flex-row gap-4 min-h-0">
         <div className="flex-grow flex flex-col gap-4 w-full md:w-2/3">
-            <div ref={videoContainerRef} className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
+            <div ref={videoContainerRef} className={`relative w-full aspect-video bg-black rounded-lg ${videoUrl ? 'overflow-hidden' : 'overflow-y-auto'}`}>
                 {videoUrl ? (
                     <>
                         <video ref={videoRef} src={videoUrl} controls className="w-full h-full" />
                         <DraggableSubtitle 
-                            subtitle={activeSubtitle} 
+                            subtitle={shownSubtitle} 
+                            secondaryText={secondarySubtitle ? presentText(secondarySubtitle.text) : null}
+                            interimText={interimCue ? presentText(interimCue.text) : null}
                             customization={customization} 
-                            onPositionChange={(pos) => handleCustomizationUpdate({ position: pos })}
+                            dragScope={dragScope}
+                            onPositionChange={handleCaptionPositionChange}
                             videoContainerRef={videoContainerRef}
+                            videoRef={videoRef}
                         />
+                        {loopCue && (
+                            <button
+                                onClick={() => setLoopCueId(null)}
+                                title={`Stop looping${keymap.loopCue ? ` (${formatKeyCombo(keymap.loopCue)})` : ''}`}
+                                className="absolute top-2 left-2 px-2 py-1 text-xs bg-indigo-600/90 hover:bg-indigo-700 rounded"
+                            >
+                                ⟲ Looping cue · Stop
+                            </button>
+                        )}
+                        <div className="absolute top-2 right-2 flex gap-1 text-xs opacity-60 hover:opacity-100 transition-opacity">
+                            <TrackSelect tracks={tracks} value={activeTrack.id} onChange={(id) => id && setActiveTrackId(id)} label="Track" className="p-1 bg-gray-900/80 border border-gray-600 rounded" />
+                            <TrackSelect
+                                tracks={tracks.filter(t => t.id !== activeTrack.id)}
+                                value={secondaryTrack?.id ?? null}
+                                onChange={setSecondaryTrackId}
+                                noneLabel="No second language"
+                                label="Second language, shown below the track"
+                                className="p-1 bg-gray-900/80 border border-gray-600 rounded"
+                            />
+                        </div>
                     </>
                 ) : (
-                    <UploadPlaceholder onSelectClick={() => fileInputRef.current?.click()} />
+                    <UploadPlaceholder
+                      onSelectClick={() => fileInputRef.current?.click()}
+                      relinkProject={relinkProject}
+                      onCancelRelink={() => setRelinkProject(null)}
+                    >
+                      {!relinkProject && (
+                        <ProjectPicker
+                          projects={projects}
+                          onOpen={handleOpenProject}
+                          onRename={handleProjectAction(renameProject)}
+                          onDuplicate={handleProjectAction(duplicateProject)}
+                          onDelete={handleProjectAction(deleteProject)}
+                          onExport={handleDownloadProject}
+                          onImport={handleImportProject}
+                        />
+                      )}
+                    </UploadPlaceholder>
                 )}
             </div>
+            {videoUrl && analysis && (
+                <ChapterBar chapters={analysis.chapters} duration={duration} currentTime={currentTime} onSeek={handleSeek} />
+            )}
             {videoUrl && (
                 <div className="flex-shrink-0 bg-gray-800 p-4 rounded-lg flex items-center justify-between">
-                    <p className="text-gray-300">{status}</p>
+                    {batchProgress ? (
+                      <div className="flex-grow mr-4">
+                        <ProgressBar
+                          label={batchProgress.phase === 'decoding'
+                            ? 'Decoding audio...'
+                            : `Transcribing chunk ${Math.min(batchProgress.completedChunks + 1, batchProgress.totalChunks)} of ${batchProgress.totalChunks}`}
+                          value={batchProgress.totalChunks ? batchProgress.completedChunks / batchProgress.totalChunks : null}
+                          onCancel={() => batchAbortRef.current?.abort()}
+                        />
+                      </div>
+                    ) : translateProgress ? (
+                      <div className="flex-grow mr-4">
+                        <ProgressBar
+                          label={`Translating ${translateProgress.completed} of ${translateProgress.total} subtitles...`}
+                          value={translateProgress.total ? translateProgress.completed / translateProgress.total : null}
+                          onCancel={() => translateAbortRef.current?.abort()}
+                        />
+                      </div>
+                    ) : diarizingWith ? (
+                      <div className="flex-grow mr-4">
+                        <ProgressBar
+                          label={`Detecting speakers with ${diarizingWith}...`}
+                          value={null}
+                          onCancel={() => diarizeAbortRef.current?.abort()}
+                        />
+                      </div>
+                    ) : analyzingWith ? (
+                      <div className="flex-grow mr-4">
+                        <ProgressBar
+                          label={`Analyzing the transcript with ${analyzingWith}...`}
+                          value={null}
+                          onCancel={() => analyzeAbortRef.current?.abort()}
+                        />
+                      </div>
+                    ) : renderProgress !== null ? (
+                      <div className="flex-grow mr-4">
+                        <ProgressBar
+                          label="Rendering video... keep this tab in the foreground."
+                          value={renderProgress}
+                          onCancel={() => renderAbortRef.current?.abort()}
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex-grow min-w-0 mr-4">
+                        <SessionStatus health={sessionHealth} message={status} level={inputLevel} />
+                      </div>
+                    )}
                     <div className="flex items-center gap-4">
+                      <ExportMenu
+                        disabled={renderProgress !== null}
+                        hasSubtitles={subtitles.length > 0}
+                        onExport={handleExport}
+                        hasChapters={!!analysis && analysis.chapters.length > 0}
+                        onExportChapters={handleExportChapters}
+                        onRenderVideo={handleRenderVideo}
+                        onExportProject={() => handleDownloadProject()}
+                      />
                       <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold flex items-center gap-2 transition-colors">
                          <UploadIcon className="w-5 h-5" />
                          Change Video
                       </button>
-                      <button onClick={handleToggleRecording} className={`px-6 py-2 rounded-lg font-semibold flex items-center gap-2 transition-colors ${isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}>
+                      <button onClick={() => subtitleInputRef.current?.click()} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold flex items-center gap-2 transition-colors">
+                         <ImportIcon className="w-5 h-5" />
+                         Import Subtitles
+                      </button>
+                      <button onClick={handleBatchTranscribe} disabled={isRecording || !!batchProgress || renderProgress !== null} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors">
+                         Batch Transcribe
+                      </button>
+                      <select
+                        value={audioSourceMode}
+                        onChange={(e) => setAudioSourceMode(e.target.value as AudioSourceMode)}
+                        disabled={isRecording}
+                        aria-label="Audio source"
+                        className="p-2 bg-gray-700 border border-gray-600 rounded-lg disabled:opacity-50"
+                      >
+                        {AUDIO_SOURCE_OPTIONS.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+                      </select>
+                      <button onClick={handleToggleRecording} disabled={!!batchProgress || renderProgress !== null} className={`px-6 py-2 rounded-lg font-semibold flex items-center gap-2 transition-colors ${isRecording ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}>
                          {isRecording ? <StopIcon className="w-6 h-6" /> : <RecordIcon className="w-6 h-6" />}
                          {isRecording ? 'Stop Generating' : 'Start Generating'}
                       </button>
                     </div>
                 </div>
             )}
+            {videoUrl && (
+                <Timeline
+                  subtitles={subtitles}
+                  duration={duration}
+                  currentTime={currentTime}
+                  waveform={waveform}
+                  onSeek={handleSeek}
+                  onTimingChange={handleSubtitleTimingUpdate}
+                />
+            )}
         </div>
         {videoUrl && (
             <aside className="w-full md:w-1/3 flex flex-col gap-4 min-h-0">
-                <CustomizationPanel customization={customization} onUpdate={handleCustomizationUpdate} />
+                <CustomizationPanel
+                  customization={customization}
+                  onUpdate={handleCustomizationUpdate}
+                  dragScope={dragScope}
+                  onDragScopeChange={setDragScope}
+                  presets={allPresets(customPresets)}
+                  onApplyPreset={handleApplyPreset}
+                  onSavePreset={handleSavePreset}
+                  onDeletePreset={handleDeletePreset}
+                  customFonts={customFonts}
+                  onLoadFont={handleLoadFont}
+                  onRemoveFont={handleRemoveFont}
+                />
                 <SubtitleList 
+                  tracks={tracks}
+                  activeTrackId={activeTrack.id}
+                  onSelectTrack={setActiveTrackId}
+                  onNewTrack={() => setTrackDialog('new')}
+                  onEditTrack={() => setTrackDialog('edit')}
+                  onDeleteTrack={handleDeleteTrack}
+                  onTranslateTrack={() => setIsTranslateOpen(true)}
+                  isTranslating={!!translateProgress}
                   subtitles={subtitles} 
+                  interimCue={interimCue}
+                  issues={readabilityIssues}
+                  profileName={readabilityProfile.name}
+                  onAutoFix={handleAutoFix}
+                  onOpenRules={() => setIsReadabilityOpen(true)}
+                  onAlignWords={handleAlignWords}
+                  speakers={speakers}
+                  onAssignSpeaker={handleAssignSpeaker}
+                  onOpenSpeakers={() => setIsSpeakersOpen(true)}
+                  onOpenGlossary={() => setIsGlossaryOpen(true)}
+                  onOpenAnalysis={() => setIsAnalysisOpen(true)}
+                  onReplace={handleReplace}
                   onUpdate={handleSubtitleTextUpdate} 
+                  onSplit={handleSplitSubtitle}
+                  onMergeNext={handleMergeSubtitle}
+                  onDelete={handleDeleteSubtitle}
+                  onInsert={handleInsertSubtitle}
+                  customization={customization}
+                  onStyleChange={handleSubtitleStyleUpdate}
+                  customFonts={customFonts}
+                  focusRequest={focusRequest}
+                  onEditingChange={setEditingCueId}
+                  onUndo={undo}
+                  onRedo={redo}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
                   videoRef={videoRef} 
                   currentTime={currentTime}
                 />
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { TranscriptAnalysis } from '../types';
+import { ANALYSIS_PROVIDER_OPTIONS, AnalysisProviderId } from '../services/transcriptAnalysis';
+import { formatChapterTime } from '../utils/chapters';
+
+interface AnalysisDialogProps {
+    analysis: TranscriptAnalysis | null;
+    /** Name of the track the analysis was made from, or null if it has been deleted. */
+    analysisTrackName: string | null;
+    trackName: string;
+    trackCueCount: number;
+    duration: number;
+    onAnalyze: (providerId: AnalysisProviderId) => void;
+    /** Jump the video to `time`; the dialog closes so the frame can be seen. */
+    onSeek: (time: number) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+/** Chapters, summary and keyword index generated from the current track's transcript. */
+const AnalysisDialog: React.FC<AnalysisDialogProps> = ({ analysis, analysisTrackName, trackName, trackCueCount, duration, onAnalyze, onSeek, onClear, onClose }) => {
+    const [providerId, setProviderId] = useState<AnalysisProviderId>('gemini');
+    const withHours = duration >= 3600;
+
+    const timeButton = (time: number, key?: React.Key) => (
+        <button
+            key={key}
+            onClick={() => onSeek(time)}
+            title="Go to this point"
+            className="px-1.5 py-0.5 font-mono text-xs text-indigo-300 bg-gray-900 hover:bg-indigo-600 hover:text-white rounded"
+        >
+            {formatChapterTime(time, withHours)}
+        </button>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Transcript Analysis</h3>
+                {analysis ? (
+                    <>
+                        <p className="text-xs text-gray-400">
+                            From {analysisTrackName ? `"${analysisTrackName}"` : 'a deleted track'} on {new Date(analysis.createdAt).toLocaleString()}.
+                            Edits to the cues since then aren't reflected.
+                        </p>
+                        <section className="space-y-1">
+                            <h4 className="text-sm font-semibold text-gray-300">Summary</h4>
+                            <p className="text-sm">{analysis.summary || <span className="text-gray-400">No summary.</span>}</p>
+                        </section>
+                        <section className="space-y-1">
+                            <h4 className="text-sm font-semibold text-gray-300">Chapters</h4>
+                            {analysis.chapters.length === 0 && <p className="text-sm text-gray-400">No chapters.</p>}
+                            <ol className="space-y-1 max-h-48 overflow-y-auto">
+                                {analysis.chapters.map((chapter, i) => (
+                                    <li key={`${chapter.startTime}:${i}`} className="flex items-center gap-2 text-sm">
+                                        {timeButton(chapter.startTime)}
+                                        <span className="truncate">{chapter.title}</span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </section>
+                        <section className="space-y-1">
+                            <h4 className="text-sm font-semibold text-gray-300">Keywords</h4>
+                            {analysis.keywords.length === 0 && <p className="text-sm text-gray-400">No keywords.</p>}
+                            <ul className="space-y-1 max-h-48 overflow-y-auto">
+                                {analysis.keywords.map(keyword => (
+                                    <li key={keyword.term} className="flex flex-wrap items-center gap-1 text-sm">
+                                        <span className="font-semibold mr-1">{keyword.term}</span>
+                                        {keyword.times.map((time, i) => timeButton(time, i))}
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    </>
+                ) : (
+                    <p className="text-sm text-gray-400">
+                        Generate chapters, a short summary and an index of key terms from the transcript. Chapters appear under
+                        the video and can be exported for YouTube or as WebVTT.
+                    </p>
+                )}
+                <fieldset className="space-y-2 border-t border-gray-600 pt-3">
+                    <legend className="block text-sm font-medium text-gray-300 mb-1">Analyze "{trackName}"</legend>
+                    {ANALYSIS_PROVIDER_OPTIONS.map(({ id, label, description }) => (
+                        <label key={id} className={`flex gap-3 p-2 rounded-md cursor-pointer ${providerId === id ? 'bg-indigo-600/30' : 'bg-gray-700'}`}>
+                            <input
+                                type="radio"
+                                name="analysis-provider"
+                                value={id}
+                                checked={providerId === id}
+                                onChange={() => setProviderId(id)}
+                                className="mt-1"
+                            />
+                            <span>
+                                <span className="block font-semibold">{label}</span>
+                                <span className="block text-sm text-gray-400">{description}</span>
+                            </span>
+                        </label>
+                    ))}
+                </fieldset>
+                <div className="flex justify-end gap-2 pt-2">
+                    {analysis && (
+                        <button onClick={onClear} className="px-4 py-2 bg-gray-700 hover:bg-red-600 rounded-lg font-semibold transition-colors mr-auto">
+                            Clear
+                        </button>
+                    )}
+                    <button
+                        onClick={() => onAnalyze(providerId)}
+                        disabled={trackCueCount === 0}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+                    >
+                        {analysis ? 'Analyze again' : 'Analyze'}
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AnalysisDialog;
@@ -0,0 +1,45 @@
+import React from 'react';
+import type { Chapter } from '../types';
+import { chapterAt, formatChapterTime } from '../utils/chapters';
+
+interface ChapterBarProps {
+    chapters: Chapter[];
+    duration: number;
+    currentTime: number;
+    onSeek: (time: number) => void;
+}
+
+/** The video's chapters as a strip of segments in proportion to their length; click one to jump to it. */
+const ChapterBar: React.FC<ChapterBarProps> = ({ chapters, duration, currentTime, onSeek }) => {
+    if (chapters.length === 0 || duration <= 0) return null;
+    const current = chapterAt(chapters, currentTime);
+    const withHours = duration >= 3600;
+
+    return (
+        <div className="flex-shrink-0 space-y-1">
+            <div className="flex h-3 gap-px rounded overflow-hidden bg-gray-900">
+                {chapters.map((chapter, i) => {
+                    const end = chapters[i + 1]?.startTime ?? duration;
+                    const isCurrent = chapter === current;
+                    return (
+                        <button
+                            key={`${chapter.startTime}:${i}`}
+                            onClick={() => onSeek(chapter.startTime)}
+                            title={`${formatChapterTime(chapter.startTime, withHours)} ${chapter.title}`}
+                            aria-label={`Chapter ${i + 1}: ${chapter.title}`}
+                            className={`h-full transition-colors ${isCurrent ? 'bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+                            style={{ flexGrow: Math.max(0, end - chapter.startTime), flexBasis: 0 }}
+                        />
+                    );
+                })}
+            </div>
+            {current && (
+                <div className="text-sm text-gray-300 truncate px-1">
+                    <span className="text-gray-500">Chapter {chapters.indexOf(current) + 1} of {chapters.length}:</span> {current.title}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ChapterBar;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { parseCssColor, toHexColor, toRgbaString } from '../utils/color';
+
+interface ColorInputProps {
+    id?: string;
+    /** Any CSS colour the app stores, e.g. `#ffffff` or `rgba(0, 0, 0, 0.5)`. */
+    value: string;
+    onChange: (value: string) => void;
+    /** Adds an opacity slider; the value is then written as `rgba(...)`. */
+    withAlpha?: boolean;
+    disabled?: boolean;
+    className?: string;
+    'aria-label'?: string;
+}
+
+/**
+ * `<input type="color">` only understands `#rrggbb`, so the colour and its opacity are
+ * edited separately and recombined, keeping transparency intact.
+ */
+const ColorInput: React.FC<ColorInputProps> = ({ id, value, onChange, withAlpha = false, disabled, className = '', 'aria-label': ariaLabel }) => {
+    const rgba = parseCssColor(value) ?? { r: 0, g: 0, b: 0, a: 1 };
+    const setColor = (hex: string) => {
+        const picked = parseCssColor(hex);
+        if (!picked) return;
+        onChange(withAlpha ? toRgbaString({ ...picked, a: rgba.a }) : hex);
+    };
+
+    return (
+        <div className={`flex items-center gap-2 ${className}`}>
+            <input
+                id={id}
+                type="color"
+                value={toHexColor(rgba)}
+                onChange={(e) => setColor(e.target.value)}
+                disabled={disabled}
+                aria-label={ariaLabel}
+                className="flex-grow h-8 p-1 bg-gray-700 border border-gray-600 rounded-lg cursor-pointer disabled:opacity-40"
+            />
+            {withAlpha && (
+                <>
+                    <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={Math.round(rgba.a * 100)}
+                        onChange={(e) => onChange(toRgbaString({ ...rgba, a: Number(e.target.value) / 100 }))}
+                        disabled={disabled}
+                        aria-label={ariaLabel ? `${ariaLabel} opacity` : 'Opacity'}
+                        className="w-20 h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <span className="w-9 text-right text-xs text-gray-400">{Math.round(rgba.a * 100)}%</span>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ColorInput;
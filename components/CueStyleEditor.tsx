@@ -0,0 +1,86 @@
+import React from 'react';
+import type { Subtitle, CustomizationState } from '../types';
+import { FONT_FAMILES } from '../constants';
+import { resolveSubtitleStyle, setStyleOverride, clearStyleOverrides, hasStyleOverrides } from '../utils/style';
+import ColorInput from './ColorInput';
+
+interface CueStyleEditorProps {
+    subtitle: Subtitle;
+    customization: CustomizationState;
+    onChange: (subtitle: Subtitle) => void;
+    /** Families loaded from font files, offered after the built-in ones. */
+    customFonts: string[];
+}
+
+interface OverrideRowProps {
+    label: string;
+    isOverridden: boolean;
+    onToggle: (enabled: boolean) => void;
+    children: React.ReactNode;
+}
+
+const OverrideRow: React.FC<OverrideRowProps> = ({ label, isOverridden, onToggle, children }) => (
+    <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1 w-28 flex-shrink-0 cursor-pointer" title="Unchecked fields use the global style">
+            <input type="checkbox" checked={isOverridden} onChange={(e) => onToggle(e.target.checked)} />
+            {label}
+        </label>
+        <div className={`flex-grow ${isOverridden ? '' : 'opacity-40 pointer-events-none'}`}>{children}</div>
+    </div>
+);
+
+/** Per-cue overrides of the global customization. Unchecked fields inherit. */
+const CueStyleEditor: React.FC<CueStyleEditorProps> = ({ subtitle, customization, onChange, customFonts }) => {
+    const resolved = resolveSubtitleStyle(customization, subtitle);
+    const overrides = subtitle.style ?? {};
+
+    const toggle = <K extends keyof CustomizationState>(key: K) => (enabled: boolean) =>
+        onChange(setStyleOverride(subtitle, key, enabled ? resolved[key] : undefined));
+    const update = <K extends keyof CustomizationState>(key: K, value: CustomizationState[K]) =>
+        onChange(setStyleOverride(subtitle, key, value));
+
+    return (
+        <div className="mt-2 p-2 bg-gray-800 rounded-md space-y-2 text-xs">
+            <OverrideRow label="Font size" isOverridden={overrides.fontSize !== undefined} onToggle={toggle('fontSize')}>
+                <div className="flex items-center gap-2">
+                    <input type="range" min="12" max="72" value={resolved.fontSize} onChange={(e) => update('fontSize', Number(e.target.value))} className="flex-grow h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+                    <span className="w-10 text-right">{resolved.fontSize}px</span>
+                </div>
+            </OverrideRow>
+            <OverrideRow label="Font color" isOverridden={overrides.color !== undefined} onToggle={toggle('color')}>
+                <ColorInput value={resolved.color} onChange={(color) => update('color', color)} aria-label="Font color" />
+            </OverrideRow>
+            <OverrideRow label="Background" isOverridden={overrides.backgroundColor !== undefined} onToggle={toggle('backgroundColor')}>
+                <ColorInput value={resolved.backgroundColor} onChange={(color) => update('backgroundColor', color)} withAlpha aria-label="Background color" />
+            </OverrideRow>
+            <OverrideRow label="Font family" isOverridden={overrides.fontFamily !== undefined} onToggle={toggle('fontFamily')}>
+                <select value={resolved.fontFamily} onChange={(e) => update('fontFamily', e.target.value)} className="w-full p-1 bg-gray-700 border border-gray-600 rounded">
+                    {[...FONT_FAMILES, ...customFonts].map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+            </OverrideRow>
+            <OverrideRow label="Bold" isOverridden={overrides.bold !== undefined} onToggle={toggle('bold')}>
+                <input type="checkbox" checked={resolved.bold} onChange={(e) => update('bold', e.target.checked)} aria-label="Bold" />
+            </OverrideRow>
+            <OverrideRow label="Italic" isOverridden={overrides.italic !== undefined} onToggle={toggle('italic')}>
+                <input type="checkbox" checked={resolved.italic} onChange={(e) => update('italic', e.target.checked)} aria-label="Italic" />
+            </OverrideRow>
+            <OverrideRow label="Position" isOverridden={overrides.position !== undefined} onToggle={toggle('position')}>
+                <span className="text-gray-300">
+                    {Math.round(resolved.position.x)}%, {Math.round(resolved.position.y)}%
+                    <span className="text-gray-500"> (drag the caption on the video)</span>
+                </span>
+            </OverrideRow>
+            <div className="flex justify-end">
+                <button
+                    onClick={() => onChange(clearStyleOverrides(subtitle))}
+                    disabled={!hasStyleOverrides(subtitle)}
+                    className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 disabled:opacity-40 rounded"
+                >
+                    Reset to default
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CueStyleEditor;
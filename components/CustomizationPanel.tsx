@@ -0,0 +1,242 @@
+import React, { useRef } from 'react';
+import type { CustomizationState, DragScope, SpeakerDisplay, ProfanityMask, StylePreset, TextAlign } from '../types';
+import { FONT_FAMILES } from '../constants';
+import { BLEEP_TOKEN } from '../utils/profanity';
+import { isBuiltInPreset, matchingPreset } from '../utils/stylePresets';
+import { FONT_FILE_ACCEPT } from '../services/fonts';
+import ColorInput from './ColorInput';
+
+const SPEAKER_DISPLAY_OPTIONS: { display: SpeakerDisplay; label: string }[] = [
+    { display: 'off', label: 'Hidden' },
+    { display: 'name', label: 'Name prefix' },
+    { display: 'color', label: 'Text colour' },
+    { display: 'both', label: 'Name and colour' },
+];
+
+const PROFANITY_MASK_OPTIONS: { mask: ProfanityMask; label: string }[] = [
+    { mask: 'off', label: 'Show as spoken' },
+    { mask: 'asterisks', label: 'Mask with asterisks (f***)' },
+    { mask: 'bleep', label: `Replace with ${BLEEP_TOKEN}` },
+];
+
+const ALIGN_OPTIONS: { align: TextAlign; label: string }[] = [
+    { align: 'left', label: 'Left' },
+    { align: 'center', label: 'Centre' },
+    { align: 'right', label: 'Right' },
+];
+
+interface CustomizationPanelProps {
+    customization: CustomizationState;
+    onUpdate: (newState: Partial<CustomizationState>) => void;
+    dragScope: DragScope;
+    onDragScopeChange: (scope: DragScope) => void;
+    /** Built-in presets first, then the user's. */
+    presets: StylePreset[];
+    onApplyPreset: (preset: StylePreset) => void;
+    onSavePreset: (name: string) => void;
+    onDeletePreset: (preset: StylePreset) => void;
+    /** Families loaded from font files. */
+    customFonts: string[];
+    onLoadFont: (file: File) => void;
+    onRemoveFont: (family: string) => void;
+}
+
+interface SliderProps {
+    id: string;
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    format: (value: number) => string;
+    onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ id, label, value, min, max, step, format, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}: {format(value)}</label>
+        <input id={id} type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" />
+    </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <details className="group border-t border-gray-700 pt-2">
+        <summary className="cursor-pointer text-sm font-semibold text-gray-200 select-none">{title}</summary>
+        <div className="space-y-3 pt-3">{children}</div>
+    </details>
+);
+
+const px = (value: number) => `${value}px`;
+
+const CustomizationPanel: React.FC<CustomizationPanelProps> = ({
+    customization, onUpdate, dragScope, onDragScopeChange,
+    presets, onApplyPreset, onSavePreset, onDeletePreset,
+    customFonts, onLoadFont, onRemoveFont,
+}) => {
+    const fontInputRef = useRef<HTMLInputElement>(null);
+    const activePreset = matchingPreset(customization, presets);
+    const isCustomFont = customFonts.includes(customization.fontFamily);
+    // A project may name a font that hasn't been loaded in this browser; keep it selectable.
+    const missingFont = !FONT_FAMILES.includes(customization.fontFamily) && !isCustomFont ? customization.fontFamily : null;
+
+    const savePreset = () => {
+        const name = window.prompt("Name for this style preset:", activePreset && !isBuiltInPreset(activePreset) ? activePreset.name : '');
+        if (name?.trim()) onSavePreset(name.trim());
+    };
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-lg space-y-4">
+            <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Customize Subtitles</h3>
+            <div>
+                <label htmlFor="style-preset" className="block text-sm font-medium text-gray-300">Preset</label>
+                <div className="flex items-center gap-1">
+                    <select
+                        id="style-preset"
+                        value={activePreset?.id ?? ''}
+                        onChange={(e) => {
+                            const preset = presets.find(p => p.id === e.target.value);
+                            if (preset) onApplyPreset(preset);
+                        }}
+                        className="flex-grow min-w-0 p-2 bg-gray-700 border border-gray-600 rounded-lg"
+                    >
+                        {!activePreset && <option value="">Custom</option>}
+                        <optgroup label="Built-in">
+                            {presets.filter(isBuiltInPreset).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </optgroup>
+                        {presets.some(p => !isBuiltInPreset(p)) && (
+                            <optgroup label="Yours">
+                                {presets.filter(p => !isBuiltInPreset(p)).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                    <button onClick={savePreset} title="Save the current look as a preset" className="px-2 py-2 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg">Save…</button>
+                    <button
+                        onClick={() => activePreset && onDeletePreset(activePreset)}
+                        disabled={!activePreset || isBuiltInPreset(activePreset)}
+                        title="Delete this preset"
+                        className="px-2 py-2 text-sm bg-gray-700 hover:bg-red-600 disabled:opacity-40 rounded-lg"
+                    >
+                        Delete
+                    </button>
+                </div>
+            </div>
+            <div>
+                <span className="block text-sm font-medium text-gray-300 mb-1">Dragging the caption moves</span>
+                <div className="flex rounded-lg overflow-hidden border border-gray-600 text-sm" title="Hold Shift while dragging to use the other option">
+                    {([['all', 'All captions'], ['cue', 'This cue only']] as const).map(([scope, label]) => (
+                        <button
+                            key={scope}
+                            onClick={() => onDragScopeChange(scope)}
+                            className={`flex-1 py-1 transition-colors ${dragScope === scope ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div>
+                <label htmlFor="font-family" className="block text-sm font-medium text-gray-300">Font Family</label>
+                <div className="flex items-center gap-1">
+                    <select id="font-family" value={customization.fontFamily} onChange={(e) => onUpdate({ fontFamily: e.target.value })} className="flex-grow min-w-0 p-2 bg-gray-700 border border-gray-600 rounded-lg">
+                        {FONT_FAMILES.map(font => <option key={font} value={font}>{font}</option>)}
+                        {customFonts.length > 0 && (
+                            <optgroup label="Loaded fonts">
+                                {customFonts.map(font => <option key={font} value={font}>{font}</option>)}
+                            </optgroup>
+                        )}
+                        {missingFont && <option value={missingFont}>{missingFont} (not loaded)</option>}
+                    </select>
+                    <input
+                        ref={fontInputRef}
+                        type="file"
+                        accept={FONT_FILE_ACCEPT}
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) onLoadFont(file);
+                        }}
+                    />
+                    <button onClick={() => fontInputRef.current?.click()} title="Load a .ttf, .otf or .woff font file" className="px-2 py-2 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg">Load…</button>
+                    {isCustomFont && (
+                        <button onClick={() => onRemoveFont(customization.fontFamily)} title="Forget this font file" className="px-2 py-2 text-sm bg-gray-700 hover:bg-red-600 rounded-lg">Remove</button>
+                    )}
+                </div>
+            </div>
+            <Slider id="font-size" label="Font Size" value={customization.fontSize} min={12} max={72} step={1} format={px} onChange={(fontSize) => onUpdate({ fontSize })} />
+            <div>
+                <label htmlFor="font-color" className="block text-sm font-medium text-gray-300">Font Color</label>
+                <ColorInput id="font-color" value={customization.color} onChange={(color) => onUpdate({ color })} />
+            </div>
+            <Section title="Typography">
+                <div className="flex items-center gap-1 text-sm">
+                    <button onClick={() => onUpdate({ bold: !customization.bold })} aria-pressed={customization.bold} title="Bold" className={`w-9 py-1 rounded font-bold ${customization.bold ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}>B</button>
+                    <button onClick={() => onUpdate({ italic: !customization.italic })} aria-pressed={customization.italic} title="Italic" className={`w-9 py-1 rounded italic ${customization.italic ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}>I</button>
+                    <div className="flex flex-grow rounded overflow-hidden border border-gray-600 ml-2">
+                        {ALIGN_OPTIONS.map(({ align, label }) => (
+                            <button
+                                key={align}
+                                onClick={() => onUpdate({ textAlign: align })}
+                                className={`flex-1 py-1 transition-colors ${customization.textAlign === align ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <Slider id="line-height" label="Line height" value={customization.lineHeight} min={0.8} max={2.5} step={0.05} format={(v) => `${v.toFixed(2)}×`} onChange={(lineHeight) => onUpdate({ lineHeight })} />
+                <Slider id="max-width" label="Max width" value={customization.maxWidth} min={20} max={100} step={1} format={(v) => `${v}% of the video`} onChange={(maxWidth) => onUpdate({ maxWidth })} />
+            </Section>
+            <Section title="Outline & shadow">
+                <Slider id="outline-width" label="Outline" value={customization.outlineWidth} min={0} max={8} step={0.5} format={(v) => v === 0 ? 'none' : px(v)} onChange={(outlineWidth) => onUpdate({ outlineWidth })} />
+                <ColorInput value={customization.outlineColor} onChange={(outlineColor) => onUpdate({ outlineColor })} disabled={customization.outlineWidth === 0} aria-label="Outline color" />
+                <Slider id="shadow-offset" label="Shadow offset" value={customization.shadowOffset} min={0} max={8} step={0.5} format={px} onChange={(shadowOffset) => onUpdate({ shadowOffset })} />
+                <Slider id="shadow-blur" label="Shadow blur" value={customization.shadowBlur} min={0} max={12} step={0.5} format={px} onChange={(shadowBlur) => onUpdate({ shadowBlur })} />
+                <ColorInput value={customization.shadowColor} onChange={(shadowColor) => onUpdate({ shadowColor })} withAlpha aria-label="Shadow color" />
+            </Section>
+            <Section title="Background">
+                <ColorInput id="bg-color" value={customization.backgroundColor} onChange={(backgroundColor) => onUpdate({ backgroundColor })} withAlpha aria-label="Background color" />
+                <Slider id="bg-padding" label="Padding" value={customization.backgroundPadding} min={0} max={1.5} step={0.05} format={(v) => `${v.toFixed(2)}em`} onChange={(backgroundPadding) => onUpdate({ backgroundPadding })} />
+            </Section>
+            <div className="flex items-center gap-3 border-t border-gray-700 pt-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-300 cursor-pointer flex-grow" title="Highlight each word as it's spoken, for cues with word timings">
+                    <input type="checkbox" checked={customization.karaoke} onChange={(e) => onUpdate({ karaoke: e.target.checked })} />
+                    Karaoke highlight
+                </label>
+                <ColorInput
+                    value={customization.highlightColor}
+                    onChange={(highlightColor) => onUpdate({ highlightColor })}
+                    disabled={!customization.karaoke}
+                    aria-label="Highlight color"
+                    className="w-16"
+                />
+            </div>
+            <div>
+                <label htmlFor="speaker-display" className="block text-sm font-medium text-gray-300">Speakers</label>
+                <select id="speaker-display" value={customization.speakerDisplay} onChange={(e) => onUpdate({ speakerDisplay: e.target.value as SpeakerDisplay })} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg">
+                    {SPEAKER_DISPLAY_OPTIONS.map(({ display, label }) => <option key={display} value={display}>{label}</option>)}
+                </select>
+            </div>
+            <div>
+                <label htmlFor="profanity-mask" className="block text-sm font-medium text-gray-300">Profanity</label>
+                <select id="profanity-mask" value={customization.profanityMask} onChange={(e) => onUpdate({ profanityMask: e.target.value as ProfanityMask })} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg">
+                    {PROFANITY_MASK_OPTIONS.map(({ mask, label }) => <option key={mask} value={mask}>{label}</option>)}
+                </select>
+                {customization.profanityMask !== 'off' && (
+                    <input
+                        // Parsed on blur so commas can be typed; the key resets it after undo.
+                        key={customization.profanityWords.join(',')}
+                        defaultValue={customization.profanityWords.join(', ')}
+                        onBlur={(e) => onUpdate({ profanityWords: e.target.value.split(',').map(w => w.trim()).filter(Boolean) })}
+                        placeholder="Also mask (comma-separated)"
+                        aria-label="Extra words to mask"
+                        title="Masked on screen and in exports, in addition to a built-in list. The cue text itself is kept."
+                        className="w-full mt-1 p-2 bg-gray-700 border border-gray-600 rounded-lg text-sm"
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CustomizationPanel;
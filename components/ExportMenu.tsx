@@ -0,0 +1,86 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SUBTITLE_FORMATS, SubtitleFormat } from '../utils/subtitleFormats';
+import { CHAPTER_FORMATS, ChapterFormat } from '../utils/chapters';
+import { DownloadIcon } from './icons';
+
+interface ExportMenuProps {
+    disabled: boolean;
+    /** Subtitle and video exports need at least one cue; the project file doesn't. */
+    hasSubtitles: boolean;
+    onExport: (format: SubtitleFormat) => void;
+    /** Chapter exports need a transcript analysis. */
+    hasChapters: boolean;
+    onExportChapters: (format: ChapterFormat) => void;
+    /** Burn the captions into a new video file. */
+    onRenderVideo: () => void;
+    onExportProject: () => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, hasSubtitles, onExport, hasChapters, onExportChapters, onRenderVideo, onExportProject }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        window.addEventListener('mousedown', handleClickOutside);
+        return () => window.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                disabled={disabled}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-semibold flex items-center gap-2 transition-colors"
+            >
+                <DownloadIcon className="w-5 h-5" />
+                Export
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 bottom-full mb-2 w-56 bg-gray-700 border border-gray-600 rounded-lg shadow-lg overflow-hidden z-20">
+                    {SUBTITLE_FORMATS.map(({ format, label }) => (
+                        <button
+                            key={format}
+                            onClick={() => { onExport(format); setIsOpen(false); }}
+                            disabled={!hasSubtitles}
+                            className="block w-full text-left px-4 py-2 hover:bg-indigo-600 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+                        >
+                            {label}
+                        </button>
+                    ))}
+                    {CHAPTER_FORMATS.map(({ format, label }, i) => (
+                        <button
+                            key={format}
+                            onClick={() => { onExportChapters(format); setIsOpen(false); }}
+                            disabled={!hasChapters}
+                            title={hasChapters ? undefined : 'Analyze the transcript first'}
+                            className={`block w-full text-left px-4 py-2 hover:bg-indigo-600 disabled:opacity-50 disabled:hover:bg-transparent transition-colors ${i === 0 ? 'border-t border-gray-600' : ''}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => { onRenderVideo(); setIsOpen(false); }}
+                        disabled={!hasSubtitles}
+                        className="block w-full text-left px-4 py-2 border-t border-gray-600 hover:bg-indigo-600 disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+                    >
+                        Video with burned-in captions (.webm)
+                    </button>
+                    <button
+                        onClick={() => { onExportProject(); setIsOpen(false); }}
+                        className="block w-full text-left px-4 py-2 border-t border-gray-600 hover:bg-indigo-600 transition-colors"
+                    >
+                        Project file (.json)
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import type { Subtitle } from '../types';
+import { buildSearchPattern, findMatches, replaceMatches, ReplaceResult, SearchMatch, SearchOptions } from '../utils/findReplace';
+
+interface FindReplacePanelProps {
+    subtitles: Subtitle[];
+    /** Applies `replace` to the active track's cues and reports how many matches changed. */
+    onReplace: (replace: (subtitles: Subtitle[]) => ReplaceResult) => void;
+    onJump: (match: SearchMatch) => void;
+    onClose: () => void;
+}
+
+/** Characters of context shown either side of a match. */
+const SNIPPET_CONTEXT = 24;
+/** Rendering thousands of rows makes typing sluggish; the count stays exact. */
+const MAX_LISTED_MATCHES = 200;
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toISOString().substr(14, 5);
+
+/** Search across every cue of the track, with a jump-to-cue list of matches. */
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ subtitles, onReplace, onJump, onClose }) => {
+    const [options, setOptions] = useState<SearchOptions>({ query: '', regex: false, caseSensitive: false, wholeWord: false });
+    const [replacement, setReplacement] = useState('');
+
+    const { pattern, error } = useMemo(() => {
+        try {
+            return { pattern: buildSearchPattern(options), error: null };
+        } catch (e) {
+            return { pattern: null, error: (e as Error).message };
+        }
+    }, [options]);
+    const matches = useMemo(() => pattern ? findMatches(subtitles, pattern) : [], [subtitles, pattern]);
+    const byId = useMemo(() => new Map(subtitles.map(s => [s.id, s])), [subtitles]);
+
+    const replace = (only?: SearchMatch) => {
+        if (!pattern) return;
+        const expand = options.regex;
+        onReplace(latest => replaceMatches(latest, pattern, replacement, expand, only));
+    };
+
+    const toggle = (key: 'regex' | 'caseSensitive' | 'wholeWord', label: string, title: string) => (
+        <button
+            onClick={() => setOptions(o => ({ ...o, [key]: !o[key] }))}
+            title={title}
+            aria-pressed={options[key]}
+            className={`px-2 py-1 rounded font-mono ${options[key] ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="bg-gray-900/60 border border-gray-600 rounded-md p-2 mb-2 space-y-2 text-sm">
+            <div className="flex items-center gap-1">
+                <input
+                    autoFocus
+                    value={options.query}
+                    onChange={(e) => setOptions(o => ({ ...o, query: e.target.value }))}
+                    onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+                    placeholder="Find"
+                    aria-label="Find"
+                    className={`flex-grow min-w-0 p-1 bg-gray-700 border rounded ${error ? 'border-red-500' : 'border-gray-600'}`}
+                />
+                {toggle('caseSensitive', 'Aa', 'Match case')}
+                {toggle('wholeWord', 'W', 'Whole words only')}
+                {toggle('regex', '.*', 'Regular expression')}
+                <button onClick={onClose} title="Close" aria-label="Close find and replace" className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded">✕</button>
+            </div>
+            <div className="flex items-center gap-1">
+                <input
+                    value={replacement}
+                    onChange={(e) => setReplacement(e.target.value)}
+                    placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+                    aria-label="Replace with"
+                    className="flex-grow min-w-0 p-1 bg-gray-700 border border-gray-600 rounded"
+                />
+                <button
+                    onClick={() => replace()}
+                    disabled={matches.length === 0}
+                    className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 rounded"
+                >
+                    Replace all
+                </button>
+            </div>
+            <div className={`text-xs ${error ? 'text-red-400' : 'text-gray-400'}`}>
+                {error ?? (options.query ? `${matches.length} matches in ${new Set(matches.map(m => m.subtitleId)).size} cues` : 'Searches every cue in this track.')}
+            </div>
+            {matches.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto space-y-0.5">
+                    {matches.slice(0, MAX_LISTED_MATCHES).map(match => {
+                        const sub = byId.get(match.subtitleId)!;
+                        const from = Math.max(0, match.index - SNIPPET_CONTEXT);
+                        const to = Math.min(sub.text.length, match.index + match.length + SNIPPET_CONTEXT);
+                        return (
+                            <li key={`${match.subtitleId}:${match.index}`} className="flex items-center gap-2 group">
+                                <button onClick={() => onJump(match)} title="Go to this cue" className="flex-grow min-w-0 text-left truncate px-1 rounded hover:bg-gray-700">
+                                    <span className="text-gray-400 mr-2">{formatTime(sub.startTime)}</span>
+                                    {from > 0 && '…'}{sub.text.slice(from, match.index)}
+                                    <mark className="bg-yellow-400 text-black rounded-sm">{sub.text.slice(match.index, match.index + match.length)}</mark>
+                                    {sub.text.slice(match.index + match.length, to)}{to < sub.text.length && '…'}
+                                </button>
+                                <button onClick={() => replace(match)} title="Replace this match" className="px-1.5 text-xs bg-gray-700 hover:bg-gray-600 rounded opacity-0 group-hover:opacity-100 focus:opacity-100">
+                                    Replace
+                                </button>
+                            </li>
+                        );
+                    })}
+                    {matches.length > MAX_LISTED_MATCHES && (
+                        <li className="text-xs text-gray-400 px-1">…and {matches.length - MAX_LISTED_MATCHES} more</li>
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default FindReplacePanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { GlossaryEntry } from '../types';
+import { createGlossaryEntry, parseVariants } from '../utils/glossary';
+
+interface GlossaryDialogProps {
+    glossary: GlossaryEntry[];
+    /** `coalesceKey` groups keystrokes in a term into one undo step. */
+    onChange: (glossary: GlossaryEntry[], coalesceKey?: string) => void;
+    /** Respell the cues already in the current track. */
+    onApplyToTrack: () => void;
+    onClose: () => void;
+}
+
+/** Preferred spellings for names and jargon, applied to every new cue as it's transcribed. */
+const GlossaryDialog: React.FC<GlossaryDialogProps> = ({ glossary, onChange, onApplyToTrack, onClose }) => {
+    const update = (id: string, change: Partial<GlossaryEntry>, coalesceKey?: string) => {
+        onChange(glossary.map(e => e.id === id ? { ...e, ...change } : e), coalesceKey);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Glossary</h3>
+                <p className="text-sm text-gray-400">
+                    New cues from live or batch transcription are respelled as they arrive. Matching ignores case and only
+                    replaces whole words; list misheard forms as comma-separated variants.
+                </p>
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {glossary.length === 0 && <p className="text-sm text-gray-400">No entries yet.</p>}
+                    {glossary.map(entry => (
+                        <div key={entry.id} className="flex items-center gap-2">
+                            <input
+                                value={entry.term}
+                                onChange={(e) => update(entry.id, { term: e.target.value }, `glossary-term:${entry.id}`)}
+                                placeholder="Preferred spelling"
+                                aria-label="Preferred spelling"
+                                className="w-2/5 p-1.5 bg-gray-700 border border-gray-600 rounded"
+                            />
+                            <input
+                                // Edited as free text and parsed on blur, so typing a comma doesn't get eaten.
+                                key={entry.variants.join(',')}
+                                defaultValue={entry.variants.join(', ')}
+                                onBlur={(e) => update(entry.id, { variants: parseVariants(e.target.value) })}
+                                placeholder="Variants, e.g. Jemini, gemeni"
+                                aria-label="Variants"
+                                className="flex-grow min-w-0 p-1.5 bg-gray-700 border border-gray-600 rounded"
+                            />
+                            <button
+                                onClick={() => onChange(glossary.filter(e => e.id !== entry.id))}
+                                title="Remove entry"
+                                className="px-2 py-1 bg-gray-700 hover:bg-red-600 rounded text-sm"
+                            >
+                                Remove
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button onClick={() => onChange([...glossary, createGlossaryEntry('')])} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm">
+                    + Add entry
+                </button>
+                <div className="flex justify-end gap-2 pt-2">
+                    <button
+                        onClick={onApplyToTrack}
+                        disabled={!glossary.some(e => e.term.trim())}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+                    >
+                        Apply to this track
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GlossaryDialog;
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { ParseResult } from '../utils/subtitleFormats';
+
+export type ImportMode = 'replace' | 'merge';
+
+interface ImportDialogProps {
+    fileName: string;
+    result: ParseResult;
+    existingCount: number;
+    onConfirm: (mode: ImportMode) => void;
+    onCancel: () => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, result, existingCount, onConfirm, onCancel }) => {
+    const { subtitles, errors, format } = result;
+    const canImport = subtitles.length > 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl">
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Import Subtitles</h3>
+                <p className="text-gray-300">
+                    <span className="font-semibold text-white">{fileName}</span> ({format.toUpperCase()}):{' '}
+                    {subtitles.length} cue{subtitles.length === 1 ? '' : 's'} found.
+                </p>
+                {errors.length > 0 && (
+                    <div>
+                        <p className="text-sm font-medium text-yellow-400 mb-1">
+                            {errors.length} problem{errors.length === 1 ? '' : 's'} — these cues were not imported:
+                        </p>
+                        <ul className="max-h-48 overflow-y-auto bg-gray-900 rounded-md p-2 text-xs font-mono space-y-1">
+                            {errors.map((err, i) => (
+                                <li key={i}>
+                                    <span className="text-gray-500">Line {err.line}:</span> {err.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {canImport && existingCount > 0 && (
+                    <p className="text-sm text-gray-400">
+                        The editor already has {existingCount} subtitle{existingCount === 1 ? '' : 's'}. Replace them, or merge the imported cues in by start time?
+                    </p>
+                )}
+                <div className="flex justify-end gap-2 pt-2">
+                    <button onClick={onCancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors">
+                        Cancel
+                    </button>
+                    {canImport && existingCount > 0 && (
+                        <button onClick={() => onConfirm('merge')} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg font-semibold transition-colors">
+                            Merge
+                        </button>
+                    )}
+                    {canImport && (
+                        <button onClick={() => onConfirm('replace')} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                            {existingCount > 0 ? 'Replace' : 'Import'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportDialog;
@@ -0,0 +1,17 @@
+import React from 'react';
+
+interface LevelMeterProps {
+    /** 0-1, from `measureLevel`. */
+    level: number;
+}
+
+const LevelMeter: React.FC<LevelMeterProps> = ({ level }) => {
+    const color = level > 0.9 ? 'bg-red-500' : level > 0.7 ? 'bg-yellow-400' : 'bg-green-500';
+    return (
+        <div className="w-24 h-2 bg-gray-700 rounded-full overflow-hidden" role="meter" aria-label="Input level" aria-valuemin={0} aria-valuemax={1} aria-valuenow={level}>
+            <div className={`h-full ${color} transition-[width] duration-75`} style={{ width: `${level * 100}%` }} />
+        </div>
+    );
+};
+
+export default LevelMeter;
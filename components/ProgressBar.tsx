@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface ProgressBarProps {
+    label: string;
+    /** 0-1, or null while the total isn't known yet. */
+    value: number | null;
+    onCancel: () => void;
+}
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ label, value, onCancel }) => {
+    return (
+        <div className="flex items-center gap-3 w-full">
+            <div className="flex-grow">
+                <div className="flex justify-between text-sm text-gray-300 mb-1">
+                    <span>{label}</span>
+                    {value !== null && <span>{Math.round(value * 100)}%</span>}
+                </div>
+                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full bg-indigo-500 transition-all ${value === null ? 'animate-pulse w-full' : ''}`}
+                        style={value === null ? undefined : { width: `${value * 100}%` }}
+                    />
+                </div>
+            </div>
+            <button onClick={onCancel} className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded-lg text-sm font-semibold transition-colors">
+                Cancel
+            </button>
+        </div>
+    );
+};
+
+export default ProgressBar;
@@ -0,0 +1,97 @@
+import React, { useState, useRef } from 'react';
+import type { Project } from '../types';
+import { countCues } from '../utils/tracks';
+
+interface ProjectPickerProps {
+    projects: Project[];
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onExport: (id: string) => void;
+    onImport: (file: File) => void;
+}
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({ projects, onOpen, onRename, onDuplicate, onDelete, onExport, onImport }) => {
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const startRename = (project: Project) => {
+        setRenamingId(project.id);
+        setDraftName(project.name);
+    };
+
+    const commitRename = () => {
+        if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+        setRenamingId(null);
+    };
+
+    return (
+        <div className="w-full max-w-2xl mt-8">
+            <input
+                type="file"
+                accept=".json,application/json"
+                ref={importInputRef}
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = '';
+                }}
+                className="hidden"
+            />
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-bold">Recent Projects</h3>
+                <button onClick={() => importInputRef.current?.click()} className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+                    Import Project...
+                </button>
+            </div>
+            {projects.length === 0 ? (
+                <p className="text-sm text-gray-500">Projects are saved automatically and will appear here.</p>
+            ) : (
+                <ul className="max-h-64 overflow-y-auto space-y-2">
+                    {projects.map(project => (
+                        <li key={project.id} className="flex items-center gap-3 p-2 bg-gray-700 rounded-md">
+                            <div className="flex-grow min-w-0">
+                                {renamingId === project.id ? (
+                                    <input
+                                        autoFocus
+                                        value={draftName}
+                                        onChange={(e) => setDraftName(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename();
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                        className="w-full p-1 bg-gray-800 border border-gray-600 rounded"
+                                    />
+                                ) : (
+                                    <button onClick={() => onOpen(project.id)} className="block w-full text-left font-semibold truncate hover:text-indigo-300">
+                                        {project.name}
+                                    </button>
+                                )}
+                                <p className="text-xs text-gray-400 truncate">
+                                    {project.video.fileName} · {countCues(project.tracks)} subtitles{project.tracks.length > 1 ? ` in ${project.tracks.length} tracks` : ''} · edited {new Date(project.updatedAt).toLocaleString()}
+                                </p>
+                            </div>
+                            <div className="flex gap-1 text-xs flex-shrink-0">
+                                <button onClick={() => onOpen(project.id)} className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 rounded">Open</button>
+                                <button onClick={() => startRename(project)} className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded">Rename</button>
+                                <button onClick={() => onDuplicate(project.id)} className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded">Duplicate</button>
+                                <button onClick={() => onExport(project.id)} className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded">Export</button>
+                                <button
+                                    onClick={() => { if (window.confirm(`Delete "${project.name}"? This can't be undone.`)) onDelete(project.id); }}
+                                    className="px-2 py-1 bg-gray-600 hover:bg-red-600 rounded"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ProjectPicker;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { ReadabilityProfile } from '../types';
+import { BUILT_IN_PROFILES } from '../utils/readability';
+import { ReadabilitySettings, allProfiles } from '../services/readabilityProfiles';
+
+interface ReadabilityDialogProps {
+    settings: ReadabilitySettings;
+    onChange: (settings: ReadabilitySettings) => void;
+    onClose: () => void;
+}
+
+type NumericField = Exclude<keyof ReadabilityProfile, 'id' | 'name'>;
+
+const FIELDS: { key: NumericField; label: string; step: number; unit: string }[] = [
+    { key: 'maxCharsPerLine', label: 'Max characters per line', step: 1, unit: '' },
+    { key: 'maxLines', label: 'Max lines', step: 1, unit: '' },
+    { key: 'maxCharsPerSecond', label: 'Max reading speed', step: 1, unit: 'chars/s' },
+    { key: 'minDuration', label: 'Min duration', step: 0.05, unit: 's' },
+    { key: 'maxDuration', label: 'Max duration', step: 0.5, unit: 's' },
+    { key: 'minGap', label: 'Min gap between cues', step: 0.01, unit: 's' },
+];
+
+const isBuiltIn = (profile: ReadabilityProfile) => BUILT_IN_PROFILES.some(p => p.id === profile.id);
+
+/** Browse, copy and edit readability profiles. Built-in profiles are read-only. */
+const ReadabilityDialog: React.FC<ReadabilityDialogProps> = ({ settings, onChange, onClose }) => {
+    const profiles = allProfiles(settings);
+    const [selectedId, setSelectedId] = useState(settings.activeProfileId);
+    const selected = profiles.find(p => p.id === selectedId) ?? profiles[0];
+    const readOnly = isBuiltIn(selected);
+
+    const updateSelected = (update: Partial<ReadabilityProfile>) => {
+        onChange({
+            ...settings,
+            customProfiles: settings.customProfiles.map(p => p.id === selected.id ? { ...p, ...update } : p),
+        });
+    };
+
+    const duplicate = () => {
+        const copy: ReadabilityProfile = { ...selected, id: crypto.randomUUID(), name: `${selected.name} (copy)` };
+        onChange({ customProfiles: [...settings.customProfiles, copy], activeProfileId: copy.id });
+        setSelectedId(copy.id);
+    };
+
+    const remove = () => {
+        if (!window.confirm(`Delete the profile "${selected.name}"?`)) return;
+        const customProfiles = settings.customProfiles.filter(p => p.id !== selected.id);
+        const activeProfileId = settings.activeProfileId === selected.id ? BUILT_IN_PROFILES[0].id : settings.activeProfileId;
+        onChange({ customProfiles, activeProfileId });
+        setSelectedId(activeProfileId);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Readability Rules</h3>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={selected.id}
+                        onChange={(e) => setSelectedId(e.target.value)}
+                        aria-label="Profile"
+                        className="flex-grow p-2 bg-gray-700 border border-gray-600 rounded-lg"
+                    >
+                        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}{isBuiltIn(p) ? ' (built-in)' : ''}</option>)}
+                    </select>
+                    <button onClick={duplicate} className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm">Duplicate</button>
+                    <button onClick={remove} disabled={readOnly} className="px-3 py-2 bg-gray-700 hover:bg-red-600 disabled:opacity-40 rounded-lg text-sm">Delete</button>
+                </div>
+                {readOnly && <p className="text-sm text-gray-400">Built-in profiles can't be edited. Duplicate one to make your own.</p>}
+                <fieldset disabled={readOnly} className="space-y-2">
+                    {!readOnly && (
+                        <div>
+                            <label htmlFor="profile-name" className="block text-sm font-medium text-gray-300">Name</label>
+                            <input
+                                id="profile-name"
+                                value={selected.name}
+                                onChange={(e) => updateSelected({ name: e.target.value })}
+                                className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg"
+                            />
+                        </div>
+                    )}
+                    {FIELDS.map(({ key, label, step, unit }) => (
+                        <div key={key} className="flex items-center gap-2">
+                            <label htmlFor={`profile-${key}`} className="flex-grow text-sm text-gray-300">{label}</label>
+                            <input
+                                id={`profile-${key}`}
+                                type="number"
+                                min={0}
+                                step={step}
+                                value={Number(selected[key].toFixed(3))}
+                                onChange={(e) => {
+                                    const value = Number(e.target.value);
+                                    if (Number.isFinite(value) && value >= 0) updateSelected({ [key]: value });
+                                }}
+                                className="w-24 p-1 bg-gray-700 border border-gray-600 rounded disabled:opacity-60"
+                            />
+                            <span className="w-14 text-sm text-gray-400">{unit}</span>
+                        </div>
+                    ))}
+                </fieldset>
+                <div className="flex justify-end gap-2 pt-2">
+                    <button
+                        onClick={() => onChange({ ...settings, activeProfileId: selected.id })}
+                        disabled={settings.activeProfileId === selected.id}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+                    >
+                        {settings.activeProfileId === selected.id ? 'In use' : 'Use this profile'}
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReadabilityDialog;
@@ -0,0 +1,36 @@
+import React from 'react';
+import type { SessionHealth } from '../services/transcription';
+import LevelMeter from './LevelMeter';
+
+interface SessionStatusProps {
+    health: SessionHealth;
+    message: string;
+    /** Input level while audio is being captured, otherwise null. */
+    level: number | null;
+}
+
+const HEALTH_DISPLAY: Record<Exclude<SessionHealth, 'idle'>, { label: string; dot: string }> = {
+    connecting: { label: 'Connecting', dot: 'bg-yellow-400 animate-pulse' },
+    open: { label: 'Live', dot: 'bg-green-500' },
+    reconnecting: { label: 'Reconnecting', dot: 'bg-orange-400 animate-pulse' },
+    error: { label: 'Error', dot: 'bg-red-500' },
+};
+
+/** The status line, with the live session's health and input level when there is one. */
+const SessionStatus: React.FC<SessionStatusProps> = ({ health, message, level }) => {
+    const display = health === 'idle' ? null : HEALTH_DISPLAY[health];
+    return (
+        <div className="flex items-center gap-3 min-w-0">
+            {display && (
+                <span className="flex items-center gap-1.5 px-2 py-0.5 bg-gray-700 rounded-full text-xs font-semibold flex-shrink-0">
+                    <span className={`w-2 h-2 rounded-full ${display.dot}`} />
+                    {display.label}
+                </span>
+            )}
+            {level !== null && <LevelMeter level={level} />}
+            <p className="text-gray-300 truncate">{message}</p>
+        </div>
+    );
+};
+
+export default SessionStatus;
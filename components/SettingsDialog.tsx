@@ -0,0 +1,79 @@
+import React from 'react';
+import {
+    TRANSCRIPTION_PROVIDER_OPTIONS,
+    DEFAULT_GEMINI_LIVE_MODEL,
+    TranscriptionSettings,
+} from '../services/transcription';
+
+interface SettingsDialogProps {
+    settings: TranscriptionSettings;
+    onUpdate: (update: Partial<TranscriptionSettings>) => void;
+    /** Provider changes only apply to the next session, so they're locked while one is running. */
+    disabled: boolean;
+    onClose: () => void;
+}
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, onUpdate, disabled, onClose }) => {
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Transcription Settings</h3>
+                {disabled && <p className="text-sm text-yellow-400">Stop generating to change the transcription provider.</p>}
+                <fieldset disabled={disabled} className="space-y-2">
+                    <legend className="block text-sm font-medium text-gray-300 mb-1">Provider</legend>
+                    {TRANSCRIPTION_PROVIDER_OPTIONS.map(({ id, label, description }) => (
+                        <label key={id} className={`flex gap-3 p-2 rounded-md cursor-pointer ${settings.providerId === id ? 'bg-indigo-600/30' : 'bg-gray-700'}`}>
+                            <input
+                                type="radio"
+                                name="transcription-provider"
+                                value={id}
+                                checked={settings.providerId === id}
+                                onChange={() => onUpdate({ providerId: id })}
+                                className="mt-1"
+                            />
+                            <span>
+                                <span className="block font-semibold">{label}</span>
+                                <span className="block text-sm text-gray-400">{description}</span>
+                            </span>
+                        </label>
+                    ))}
+                </fieldset>
+                {settings.providerId === 'gemini-live' && (
+                    <div>
+                        <label htmlFor="gemini-model" className="block text-sm font-medium text-gray-300">Model</label>
+                        <input
+                            id="gemini-model"
+                            type="text"
+                            value={settings.geminiModel}
+                            placeholder={DEFAULT_GEMINI_LIVE_MODEL}
+                            disabled={disabled}
+                            onChange={(e) => onUpdate({ geminiModel: e.target.value })}
+                            className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg"
+                        />
+                    </div>
+                )}
+                {settings.providerId === 'websocket' && (
+                    <div>
+                        <label htmlFor="websocket-url" className="block text-sm font-medium text-gray-300">Server URL</label>
+                        <input
+                            id="websocket-url"
+                            type="url"
+                            value={settings.websocketUrl}
+                            placeholder="ws://localhost:9000/transcribe"
+                            disabled={disabled}
+                            onChange={(e) => onUpdate({ websocketUrl: e.target.value })}
+                            className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg"
+                        />
+                    </div>
+                )}
+                <div className="flex justify-end pt-2">
+                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsDialog;
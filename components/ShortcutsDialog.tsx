@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { SHORTCUT_ACTIONS, DEFAULT_KEYMAP, Keymap, ShortcutAction, keyComboFromEvent, formatKeyCombo, rebind } from '../utils/shortcuts';
+
+interface ShortcutsDialogProps {
+    keymap: Keymap;
+    onChange: (keymap: Keymap) => void;
+    onClose: () => void;
+}
+
+/** Shortcuts that are built in rather than remappable. */
+const FIXED_SHORTCUTS: [string, string][] = [
+    ['Ctrl + Z', 'Undo'],
+    ['Ctrl + Shift + Z / Ctrl + Y', 'Redo'],
+    ['Alt + 1…9 / Alt + 0', 'Set or clear the speaker while editing a cue'],
+    ['Esc', 'Leave the cue text, back to reviewing'],
+    ['Alt while dragging a cue', 'Bypass snapping on the timeline'],
+    ['Shift while dragging the caption', 'Move all captions or just this cue'],
+];
+
+const Kbd: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <kbd className="px-1.5 py-0.5 bg-gray-900 border border-gray-600 rounded font-mono text-xs whitespace-nowrap">{children}</kbd>
+);
+
+/** Lists every shortcut and lets each review shortcut be bound to a different key. */
+const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ keymap, onChange, onClose }) => {
+    const [recording, setRecording] = useState<ShortcutAction | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        // Capture phase, so the app's own shortcuts don't also fire while a key is being recorded.
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!recording) {
+                if (e.key === 'Escape') onClose();
+                return;
+            }
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === 'Escape') {
+                setRecording(null);
+                return;
+            }
+            const combo = keyComboFromEvent(e);
+            if (!combo) return;
+            const taken = SHORTCUT_ACTIONS.find(s => s.action !== recording && keymap[s.action] === combo);
+            setNotice(taken ? `${formatKeyCombo(combo)} was moved from "${taken.label}", which now has no key.` : null);
+            onChange(rebind(keymap, recording, combo));
+            setRecording(null);
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [recording, keymap, onChange, onClose]);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Keyboard Shortcuts</h3>
+                <p className="text-sm text-gray-400">
+                    Keys without Ctrl or Alt are ignored while typing in a text field; press Esc to leave a cue's text first.
+                    Cue shortcuts apply to the cue being edited, or else the one under the playhead.
+                </p>
+                <div className="max-h-80 overflow-y-auto space-y-1">
+                    {SHORTCUT_ACTIONS.map(({ action, label, defaultKey }) => (
+                        <div key={action} className="flex items-center gap-2 text-sm">
+                            <span className="flex-grow">{label}</span>
+                            {recording === action
+                                ? <span className="text-indigo-300 animate-pulse">Press a key…</span>
+                                : keymap[action] ? <Kbd>{formatKeyCombo(keymap[action])}</Kbd> : <span className="text-gray-500">None</span>}
+                            <button
+                                onClick={() => setRecording(recording === action ? null : action)}
+                                className={`px-2 py-0.5 rounded ${recording === action ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            >
+                                {recording === action ? 'Cancel' : 'Change'}
+                            </button>
+                            <button
+                                onClick={() => onChange(rebind(keymap, action, defaultKey))}
+                                disabled={keymap[action] === defaultKey}
+                                title={`Reset to ${formatKeyCombo(defaultKey)}`}
+                                className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+                            >
+                                Reset
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                {notice && <p className="text-sm text-yellow-300">{notice}</p>}
+                <div className="border-t border-gray-700 pt-3 space-y-1 text-sm">
+                    {FIXED_SHORTCUTS.map(([keys, label]) => (
+                        <div key={keys} className="flex items-center gap-2">
+                            <span className="flex-grow text-gray-300">{label}</span>
+                            <Kbd>{keys}</Kbd>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-end gap-2 pt-2">
+                    <button
+                        onClick={() => { onChange(DEFAULT_KEYMAP); setNotice(null); }}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors"
+                    >
+                        Reset all
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutsDialog;
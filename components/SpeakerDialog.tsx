@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import type { Speaker } from '../types';
+import { createSpeaker, nextSpeakerColor } from '../utils/speakers';
+import { DIARIZATION_PROVIDER_OPTIONS, DiarizationProviderId } from '../services/diarization';
+
+interface SpeakerDialogProps {
+    speakers: Speaker[];
+    /** Cues per speaker id in the current track. */
+    cueCounts: Map<string, number>;
+    /** `coalesceKey` groups keystrokes in a name into one undo step. */
+    onChange: (speakers: Speaker[], coalesceKey?: string) => void;
+    /** Cues in the current track, which detection labels. */
+    trackCueCount: number;
+    onDetect: (providerId: DiarizationProviderId) => void;
+    onClose: () => void;
+}
+
+/** The project's speaker roster, and automatic detection of who speaks each cue. */
+const SpeakerDialog: React.FC<SpeakerDialogProps> = ({ speakers, cueCounts, onChange, trackCueCount, onDetect, onClose }) => {
+    const [providerId, setProviderId] = useState<DiarizationProviderId>('gemini');
+
+    const update = (id: string, change: Partial<Speaker>, coalesceKey: string) => {
+        onChange(speakers.map(s => s.id === id ? { ...s, ...change } : s), coalesceKey);
+    };
+
+    const add = () => {
+        onChange([...speakers, createSpeaker(`Speaker ${speakers.length + 1}`, nextSpeakerColor(speakers))]);
+    };
+
+    const remove = (speaker: Speaker) => {
+        const count = cueCounts.get(speaker.id) ?? 0;
+        if (count > 0 && !window.confirm(`Remove "${speaker.name}"? Their ${count} cues will have no speaker.`)) return;
+        onChange(speakers.filter(s => s.id !== speaker.id));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Speakers</h3>
+                <p className="text-sm text-gray-400">
+                    While a cue has focus in the subtitle list, Alt+1 to Alt+9 assign the speakers below and Alt+0 clears.
+                </p>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {speakers.length === 0 && <p className="text-sm text-gray-400">No speakers yet.</p>}
+                    {speakers.map((speaker, i) => (
+                        <div key={speaker.id} className="flex items-center gap-2">
+                            <span className="w-12 text-xs text-gray-400">{i < 9 ? `Alt+${i + 1}` : ''}</span>
+                            <input
+                                type="color"
+                                value={speaker.color}
+                                onChange={(e) => update(speaker.id, { color: e.target.value }, `speaker-color:${speaker.id}`)}
+                                aria-label={`Colour for ${speaker.name}`}
+                                className="w-10 h-9 p-1 bg-gray-700 border border-gray-600 rounded cursor-pointer"
+                            />
+                            <input
+                                value={speaker.name}
+                                onChange={(e) => update(speaker.id, { name: e.target.value }, `speaker-name:${speaker.id}`)}
+                                aria-label="Speaker name"
+                                className="flex-grow min-w-0 p-1.5 bg-gray-700 border border-gray-600 rounded"
+                            />
+                            <span className="w-16 text-right text-xs text-gray-400">{cueCounts.get(speaker.id) ?? 0} cues</span>
+                            <button onClick={() => remove(speaker)} title="Remove speaker" className="px-2 py-1 bg-gray-700 hover:bg-red-600 rounded text-sm">
+                                Remove
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button onClick={add} className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm">+ Add speaker</button>
+                <fieldset className="space-y-2 border-t border-gray-600 pt-3">
+                    <legend className="block text-sm font-medium text-gray-300 mb-1">Detect speakers automatically</legend>
+                    {DIARIZATION_PROVIDER_OPTIONS.map(({ id, label, description }) => (
+                        <label key={id} className={`flex gap-3 p-2 rounded-md cursor-pointer ${providerId === id ? 'bg-indigo-600/30' : 'bg-gray-700'}`}>
+                            <input
+                                type="radio"
+                                name="diarization-provider"
+                                value={id}
+                                checked={providerId === id}
+                                onChange={() => setProviderId(id)}
+                                className="mt-1"
+                            />
+                            <span>
+                                <span className="block font-semibold">{label}</span>
+                                <span className="block text-sm text-gray-400">{description}</span>
+                            </span>
+                        </label>
+                    ))}
+                    <p className="text-xs text-gray-400">Replaces the speaker of all {trackCueCount} cues in this track. Matching names reuse roster entries.</p>
+                </fieldset>
+                <div className="flex justify-end gap-2 pt-2">
+                    <button
+                        onClick={() => onDetect(providerId)}
+                        disabled={trackCueCount === 0}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+                    >
+                        Detect speakers
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg font-semibold transition-colors">
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SpeakerDialog;
@@ -0,0 +1,289 @@
+import React, { useState, useRef, useEffect, useCallback, useLayoutEffect } from 'react';
+import type { Subtitle } from '../types';
+import { Waveform, peakBetween } from '../utils/waveform';
+import { MIN_CUE_DURATION } from '../utils/subtitles';
+
+/** Edges within this many px of a snap target jump to it. */
+const SNAP_DISTANCE_PX = 8;
+/** Width of the grab zone at either end of a cue block. */
+const EDGE_HANDLE_PX = 6;
+/** Fingers are less precise than a mouse, so touches get a wider grab zone. */
+const TOUCH_EDGE_HANDLE_PX = 16;
+const RULER_HEIGHT = 18;
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 400;
+
+type DragMode = 'start' | 'end' | 'move';
+
+interface DragState {
+    /** Other pointers (a second finger) are ignored while this one drags. */
+    pointerId: number;
+    id: number;
+    mode: DragMode;
+    originX: number;
+    originStart: number;
+    originEnd: number;
+}
+
+interface TimelineProps {
+    subtitles: Subtitle[];
+    duration: number;
+    currentTime: number;
+    waveform: Waveform | null;
+    onSeek: (time: number) => void;
+    onTimingChange: (id: number, startTime: number, endTime: number) => void;
+}
+
+/** Ruler tick spacing that keeps labels roughly 80px apart. */
+function tickInterval(pxPerSecond: number): number {
+    const steps = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+    return steps.find(step => step * pxPerSecond >= 80) ?? 600;
+}
+
+const formatTick = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = seconds % 60;
+    return `${m}:${s < 10 ? '0' : ''}${Number.isInteger(s) ? s : s.toFixed(1)}`;
+};
+
+const Timeline: React.FC<TimelineProps> = ({ subtitles, duration, currentTime, waveform, onSeek, onTimingChange }) => {
+    const [pxPerSecond, setPxPerSecond] = useState(80);
+    const [snapEnabled, setSnapEnabled] = useState(true);
+    const [scrollLeft, setScrollLeft] = useState(0);
+    const [viewportWidth, setViewportWidth] = useState(0);
+    const [draggingId, setDraggingId] = useState<number | null>(null);
+
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragState = useRef<DragState | null>(null);
+
+    const totalWidth = Math.max(viewportWidth, duration * pxPerSecond);
+
+    useLayoutEffect(() => {
+        const el = scrollRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(() => setViewportWidth(el.clientWidth));
+        observer.observe(el);
+        setViewportWidth(el.clientWidth);
+        return () => observer.disconnect();
+    }, []);
+
+    // Keep the playhead in view during playback, unless the user is dragging a cue.
+    useEffect(() => {
+        const el = scrollRef.current;
+        if (!el || dragState.current || viewportWidth === 0) return;
+        const x = currentTime * pxPerSecond;
+        if (x < el.scrollLeft || x > el.scrollLeft + viewportWidth) {
+            el.scrollLeft = Math.max(0, x - viewportWidth * 0.1);
+        }
+    }, [currentTime, pxPerSecond, viewportWidth]);
+
+    // --- Drawing ---
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || viewportWidth === 0) return;
+        const height = canvas.clientHeight;
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = viewportWidth * dpr;
+        canvas.height = height * dpr;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.clearRect(0, 0, viewportWidth, height);
+
+        const waveTop = RULER_HEIGHT;
+        const waveHeight = height - RULER_HEIGHT;
+        const mid = waveTop + waveHeight / 2;
+
+        if (waveform) {
+            ctx.fillStyle = 'rgba(129, 140, 248, 0.6)'; // indigo-400
+            for (let x = 0; x < viewportWidth; x++) {
+                const from = (scrollLeft + x) / pxPerSecond;
+                if (from > duration) break;
+                const peak = peakBetween(waveform, from, (scrollLeft + x + 1) / pxPerSecond);
+                const h = Math.max(1, peak * waveHeight);
+                ctx.fillRect(x, mid - h / 2, 1, h);
+            }
+        }
+
+        const interval = tickInterval(pxPerSecond);
+        ctx.fillStyle = '#9CA3AF'; // gray-400
+        ctx.font = '10px sans-serif';
+        const firstTick = Math.floor(scrollLeft / pxPerSecond / interval) * interval;
+        for (let t = firstTick; t * pxPerSecond <= scrollLeft + viewportWidth; t += interval) {
+            const x = t * pxPerSecond - scrollLeft;
+            ctx.fillRect(x, 0, 1, 6);
+            ctx.fillText(formatTick(t), x + 3, 12);
+        }
+    }, [waveform, scrollLeft, viewportWidth, pxPerSecond, duration]);
+
+    // --- Dragging ---
+
+    const snap = useCallback((time: number, excludeId: number): number | null => {
+        const threshold = SNAP_DISTANCE_PX / pxPerSecond;
+        const targets = [currentTime];
+        subtitles.forEach(s => {
+            if (s.id !== excludeId) targets.push(s.startTime, s.endTime);
+        });
+        let best: number | null = null;
+        for (const target of targets) {
+            if (Math.abs(target - time) <= threshold && (best === null || Math.abs(target - time) < Math.abs(best - time))) {
+                best = target;
+            }
+        }
+        return best;
+    }, [currentTime, subtitles, pxPerSecond]);
+
+    const handleBlockPointerDown = (e: React.PointerEvent, sub: Subtitle) => {
+        if (!e.isPrimary || e.button !== 0) return;
+        e.stopPropagation();
+        e.preventDefault();
+        const rect = (e.currentTarget as HTMLDivElement).getBoundingClientRect();
+        const offsetX = e.clientX - rect.left;
+        const handle = Math.min(e.pointerType === 'touch' ? TOUCH_EDGE_HANDLE_PX : EDGE_HANDLE_PX, rect.width / 3);
+        let mode: DragMode = 'move';
+        if (offsetX <= handle) mode = 'start';
+        else if (offsetX >= rect.width - handle) mode = 'end';
+
+        dragState.current = { pointerId: e.pointerId, id: sub.id, mode, originX: e.clientX, originStart: sub.startTime, originEnd: sub.endTime };
+        setDraggingId(sub.id);
+    };
+
+    const handlePointerMove = useCallback((e: PointerEvent) => {
+        const drag = dragState.current;
+        if (!drag || e.pointerId !== drag.pointerId) return;
+        const delta = (e.clientX - drag.originX) / pxPerSecond;
+        const shouldSnap = snapEnabled && !e.altKey;
+        const maxTime = duration || Infinity;
+        let start = drag.originStart;
+        let end = drag.originEnd;
+
+        if (drag.mode === 'start') {
+            start = drag.originStart + delta;
+            if (shouldSnap) start = snap(start, drag.id) ?? start;
+            start = Math.max(0, Math.min(start, end - MIN_CUE_DURATION));
+        } else if (drag.mode === 'end') {
+            end = drag.originEnd + delta;
+            if (shouldSnap) end = snap(end, drag.id) ?? end;
+            end = Math.min(maxTime, Math.max(end, start + MIN_CUE_DURATION));
+        } else {
+            const length = drag.originEnd - drag.originStart;
+            start = drag.originStart + delta;
+            if (shouldSnap) {
+                const snappedStart = snap(start, drag.id);
+                const snappedEnd = snap(start + length, drag.id);
+                if (snappedStart !== null && (snappedEnd === null || Math.abs(snappedStart - start) <= Math.abs(snappedEnd - start - length))) {
+                    start = snappedStart;
+                } else if (snappedEnd !== null) {
+                    start = snappedEnd - length;
+                }
+            }
+            start = Math.max(0, Math.min(start, maxTime - length));
+            end = start + length;
+        }
+
+        onTimingChange(drag.id, start, end);
+    }, [pxPerSecond, snapEnabled, duration, snap, onTimingChange]);
+
+    const handlePointerUp = useCallback((e: PointerEvent) => {
+        if (dragState.current?.pointerId !== e.pointerId) return;
+        dragState.current = null;
+        setDraggingId(null);
+    }, []);
+
+    useEffect(() => {
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        window.addEventListener('pointercancel', handlePointerUp);
+        return () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            window.removeEventListener('pointercancel', handlePointerUp);
+        };
+    }, [handlePointerMove, handlePointerUp]);
+
+    const handleBackgroundPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!e.isPrimary || e.button !== 0) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSeek(Math.max(0, Math.min(duration, (e.clientX - rect.left) / pxPerSecond)));
+    };
+
+    const handleZoom = (factor: number) => {
+        const el = scrollRef.current;
+        const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, pxPerSecond * factor));
+        setPxPerSecond(next);
+        // Zoom around the playhead.
+        if (el) el.scrollLeft = Math.max(0, currentTime * next - viewportWidth / 2);
+    };
+
+    const visibleFrom = scrollLeft / pxPerSecond;
+    const visibleTo = (scrollLeft + viewportWidth) / pxPerSecond;
+
+    return (
+        <div className="bg-gray-800 p-2 rounded-lg flex-shrink-0 select-none">
+            <div className="flex items-center justify-between text-sm text-gray-300 mb-1 px-1">
+                <span>Timeline {!waveform && duration > 0 && <span className="text-gray-500">(decoding waveform...)</span>}</span>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1 cursor-pointer" title="Hold Alt while dragging to bypass snapping">
+                        <input type="checkbox" checked={snapEnabled} onChange={(e) => setSnapEnabled(e.target.checked)} />
+                        Snap
+                    </label>
+                    <button onClick={() => handleZoom(1 / 1.5)} className="px-2 bg-gray-700 hover:bg-gray-600 rounded" aria-label="Zoom out">−</button>
+                    <button onClick={() => handleZoom(1.5)} className="px-2 bg-gray-700 hover:bg-gray-600 rounded" aria-label="Zoom in">+</button>
+                </div>
+            </div>
+            <div
+                ref={scrollRef}
+                className="relative h-28 overflow-x-auto overflow-y-hidden bg-gray-900 rounded"
+                onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+                onWheel={(e) => {
+                    if (e.ctrlKey || e.metaKey) {
+                        e.preventDefault();
+                        handleZoom(e.deltaY < 0 ? 1.2 : 1 / 1.2);
+                    }
+                }}
+            >
+                <div className="relative h-full cursor-text" style={{ width: totalWidth }} onPointerDown={handleBackgroundPointerDown}>
+                    <canvas
+                        ref={canvasRef}
+                        className="absolute top-0 h-full pointer-events-none"
+                        style={{ left: scrollLeft, width: viewportWidth }}
+                    />
+                    {subtitles
+                        .filter(sub => sub.endTime >= visibleFrom && sub.startTime <= visibleTo)
+                        .map(sub => {
+                            const isActive = currentTime >= sub.startTime && currentTime < sub.endTime;
+                            return (
+                                <div
+                                    key={sub.id}
+                                    onPointerDown={(e) => handleBlockPointerDown(e, sub)}
+                                    title={sub.text}
+                                    // touch-none: a finger on a cue drags it instead of scrolling the timeline.
+                                    className={`absolute rounded border text-xs px-2 overflow-hidden whitespace-nowrap text-ellipsis cursor-grab touch-none
+                                        ${draggingId === sub.id ? 'cursor-grabbing z-10' : ''}
+                                        ${isActive ? 'bg-indigo-500/70 border-indigo-300' : 'bg-gray-600/70 border-gray-400'}`}
+                                    style={{
+                                        left: sub.startTime * pxPerSecond,
+                                        width: Math.max(2, (sub.endTime - sub.startTime) * pxPerSecond),
+                                        top: RULER_HEIGHT + 14,
+                                        bottom: 14,
+                                    }}
+                                >
+                                    <span className="absolute left-0 top-0 bottom-0 cursor-ew-resize" style={{ width: EDGE_HANDLE_PX }} />
+                                    <span className="pointer-events-none">{sub.text}</span>
+                                    <span className="absolute right-0 top-0 bottom-0 cursor-ew-resize" style={{ width: EDGE_HANDLE_PX }} />
+                                </div>
+                            );
+                        })}
+                    <div
+                        className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none z-20"
+                        style={{ left: currentTime * pxPerSecond }}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default Timeline;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { LANGUAGES } from '../constants';
+
+interface TrackDialogProps {
+    title: string;
+    initialName: string;
+    initialLanguage: string;
+    onSave: (name: string, language: string) => void;
+    onCancel: () => void;
+}
+
+/** Name and language of a new or existing track. */
+const TrackDialog: React.FC<TrackDialogProps> = ({ title, initialName, initialLanguage, onSave, onCancel }) => {
+    const [name, setName] = useState(initialName);
+    const [language, setLanguage] = useState(initialLanguage);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (name.trim()) onSave(name.trim(), language);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+            <form onSubmit={submit} className="bg-gray-800 rounded-lg w-full max-w-sm p-6 space-y-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">{title}</h3>
+                <div>
+                    <label htmlFor="track-name" className="block text-sm font-medium text-gray-300">Name</label>
+                    <input id="track-name" autoFocus value={name} onChange={(e) => setName(e.target.value)} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg" />
+                </div>
+                <div>
+                    <label htmlFor="track-language" className="block text-sm font-medium text-gray-300">Language</label>
+                    <select id="track-language" value={language} onChange={(e) => setLanguage(e.target.value)} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg">
+                        {LANGUAGES.map(({ code, name }) => <option key={code} value={code}>{name} ({code})</option>)}
+                    </select>
+                </div>
+                <div className="flex justify-end gap-2 pt-2">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors">
+                        Cancel
+                    </button>
+                    <button type="submit" disabled={!name.trim()} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg font-semibold transition-colors">
+                        Save
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default TrackDialog;
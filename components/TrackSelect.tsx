@@ -0,0 +1,32 @@
+import React from 'react';
+import type { SubtitleTrack } from '../types';
+
+interface TrackSelectProps {
+    tracks: SubtitleTrack[];
+    value: string | null;
+    onChange: (trackId: string | null) => void;
+    /** Adds an empty choice with this label, for optional selections. */
+    noneLabel?: string;
+    label: string;
+    className?: string;
+}
+
+export const trackLabel = (track: SubtitleTrack) =>
+    track.language === 'und' ? track.name : `${track.name} (${track.language})`;
+
+const TrackSelect: React.FC<TrackSelectProps> = ({ tracks, value, onChange, noneLabel, label, className }) => {
+    return (
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            aria-label={label}
+            title={label}
+            className={className ?? 'p-1 bg-gray-700 border border-gray-600 rounded'}
+        >
+            {noneLabel !== undefined && <option value="">{noneLabel}</option>}
+            {tracks.map(track => <option key={track.id} value={track.id}>{trackLabel(track)}</option>)}
+        </select>
+    );
+};
+
+export default TrackSelect;
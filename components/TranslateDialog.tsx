@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { SubtitleTrack } from '../types';
+import { LANGUAGES, languageName } from '../constants';
+import { TRANSLATION_PROVIDER_OPTIONS, TranslationProviderId } from '../services/translation';
+
+export interface TranslateRequest {
+    target: string;
+    providerId: TranslationProviderId;
+}
+
+interface TranslateDialogProps {
+    track: SubtitleTrack;
+    onTranslate: (request: TranslateRequest) => void;
+    onCancel: () => void;
+}
+
+const TranslateDialog: React.FC<TranslateDialogProps> = ({ track, onTranslate, onCancel }) => {
+    const targets = LANGUAGES.filter(l => l.code !== 'und' && l.code !== track.language);
+    const [target, setTarget] = useState(targets.find(l => l.code === 'en')?.code ?? targets[0].code);
+    const [providerId, setProviderId] = useState<TranslationProviderId>('gemini');
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+            <div className="bg-gray-800 rounded-lg w-full max-w-lg p-6 space-y-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-xl font-bold border-b border-gray-600 pb-2">Translate Track</h3>
+                <p className="text-sm text-gray-300">
+                    Translates the {track.subtitles.length} cues of "{track.name}"
+                    {track.language !== 'und' && ` from ${languageName(track.language)}`} into a new track with the same timing.
+                </p>
+                <div>
+                    <label htmlFor="translate-target" className="block text-sm font-medium text-gray-300">Target language</label>
+                    <select id="translate-target" value={target} onChange={(e) => setTarget(e.target.value)} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg">
+                        {targets.map(({ code, name }) => <option key={code} value={code}>{name} ({code})</option>)}
+                    </select>
+                </div>
+                <fieldset className="space-y-2">
+                    <legend className="block text-sm font-medium text-gray-300 mb-1">Provider</legend>
+                    {TRANSLATION_PROVIDER_OPTIONS.map(({ id, label, description }) => (
+                        <label key={id} className={`flex gap-3 p-2 rounded-md cursor-pointer ${providerId === id ? 'bg-indigo-600/30' : 'bg-gray-700'}`}>
+                            <input
+                                type="radio"
+                                name="translation-provider"
+                                value={id}
+                                checked={providerId === id}
+                                onChange={() => setProviderId(id)}
+                                className="mt-1"
+                            />
+                            <span>
+                                <span className="block font-semibold">{label}</span>
+                                <span className="block text-sm text-gray-400">{description}</span>
+                            </span>
+                        </label>
+                    ))}
+                </fieldset>
+                <div className="flex justify-end gap-2 pt-2">
+                    <button onClick={onCancel} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-semibold transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onTranslate({ target, providerId })}
+                        disabled={track.subtitles.length === 0}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg font-semibold transition-colors"
+                    >
+                        Translate
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TranslateDialog;
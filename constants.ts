@@ -0,0 +1,56 @@
+import type { CustomizationState } from './types';
+
+export const FONT_FAMILES = ['Arial', 'Verdana', 'Helvetica', 'Times New Roman', 'Courier New'];
+
+export const INITIAL_CUSTOMIZATION_STATE: CustomizationState = {
+  fontSize: 24,
+  color: '#FFFFFF',
+  fontFamily: 'Arial',
+  bold: false,
+  italic: false,
+  lineHeight: 1.2,
+  textAlign: 'center',
+  maxWidth: 90,
+  outlineWidth: 0,
+  outlineColor: '#000000',
+  shadowColor: '#000000',
+  shadowOffset: 1,
+  shadowBlur: 2,
+  position: { x: 50, y: 85 }, // Center-bottom position in percentage
+  backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  backgroundPadding: 0.5,
+  karaoke: false,
+  highlightColor: '#FFD700',
+  speakerDisplay: 'both',
+  profanityMask: 'off',
+  profanityWords: [],
+};
+
+/** Handed out in order to new speakers; picked to read well on a dark caption box. */
+export const SPEAKER_COLORS = ['#FFD54F', '#4FC3F7', '#AED581', '#F06292', '#FFB74D', '#BA68C8', '#4DB6AC', '#E57373'];
+
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'und', name: 'Undetermined' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'en', name: 'English' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'vi', name: 'Vietnamese' },
+];
+
+export const languageName = (code: string) =>
+  LANGUAGES.find(l => l.code === code)?.name ?? code;
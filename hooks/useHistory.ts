@@ -0,0 +1,89 @@
+import { useReducer, useCallback } from 'react';
+
+/** Oldest entries are dropped beyond this many undo steps. */
+const MAX_HISTORY = 200;
+/** Edits sharing a coalesce key this close together become a single undo step. */
+const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastTime: number;
+}
+
+type HistoryAction<T> =
+  | { type: 'set'; updater: (prev: T) => T; coalesceKey?: string; time: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; state: T };
+
+function historyReducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case 'set': {
+      const next = action.updater(state.present);
+      if (next === state.present) return state;
+      const coalesce = action.coalesceKey !== undefined
+        && action.coalesceKey === state.lastKey
+        && action.time - state.lastTime < COALESCE_WINDOW_MS;
+      return {
+        past: coalesce ? state.past : [...state.past, state.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKey: action.coalesceKey ?? null,
+        lastTime: action.time,
+      };
+    }
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastKey: null,
+        lastTime: 0,
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastKey: null,
+        lastTime: 0,
+      };
+    }
+    case 'reset':
+      return { past: [], present: action.state, future: [], lastKey: null, lastTime: 0 };
+  }
+}
+
+/**
+ * Undo/redo over a single immutable value. Pass a `coalesceKey` to `set` for rapid,
+ * repeated edits (keystrokes in one cue, slider drags) so they undo as one step.
+ */
+export function useHistory<T>(initial: T) {
+  const [state, dispatch] = useReducer(
+    historyReducer as (state: HistoryState<T>, action: HistoryAction<T>) => HistoryState<T>,
+    { past: [], present: initial, future: [], lastKey: null, lastTime: 0 },
+  );
+
+  const set = useCallback((updater: (prev: T) => T, coalesceKey?: string) => {
+    dispatch({ type: 'set', updater, coalesceKey, time: Date.now() });
+  }, []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const reset = useCallback((next: T) => dispatch({ type: 'reset', state: next }), []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
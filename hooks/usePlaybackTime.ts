@@ -0,0 +1,35 @@
+import { useEffect, useState, RefObject } from 'react';
+
+/**
+ * The media element's current time, updated every animation frame while it plays.
+ * `timeupdate` only fires a few times a second, too coarse for word highlighting.
+ * Does nothing while `enabled` is false.
+ */
+export function usePlaybackTime(mediaRef: RefObject<HTMLMediaElement>, enabled: boolean): number {
+  const [time, setTime] = useState(0);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!enabled || !media) return;
+    let frame: number | null = null;
+    const tick = () => {
+      setTime(media.currentTime);
+      frame = media.paused ? null : requestAnimationFrame(tick);
+    };
+    const start = () => {
+      if (frame === null) frame = requestAnimationFrame(tick);
+    };
+    const sync = () => setTime(media.currentTime);
+    sync();
+    if (!media.paused) start();
+    media.addEventListener('play', start);
+    media.addEventListener('seeked', sync);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      media.removeEventListener('play', start);
+      media.removeEventListener('seeked', sync);
+    };
+  }, [mediaRef, enabled]);
+
+  return time;
+}
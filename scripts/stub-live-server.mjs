@@ -0,0 +1,184 @@
+// Local stand-in for the live WebSocket transcription provider, for testing reconnection.
+//
+//   node scripts/stub-live-server.mjs [port] [--drop-every=SECONDS]
+//
+// then pick "WebSocket server" in the app's transcription settings with the default
+// URL ws://localhost:9000/transcribe. Speaks the protocol documented in
+// services/transcription/websocketProvider.ts: every 3 s of received audio becomes one
+// utterance, revealed word by word as partials and then finalised with stream and word timings.
+//
+// Dropping connections on demand:
+//   curl -X POST http://localhost:9000/drop            kill every open socket without a close frame
+//   curl -X POST 'http://localhost:9000/drop?refuse=2' ...and refuse the next 2 connection attempts
+//   --drop-every=SECONDS                                do the same on a timer
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const args = process.argv.slice(2);
+const port = Number(args.find(arg => !arg.startsWith('--')) ?? process.env.PORT ?? 9000);
+const dropEvery = Number(args.find(arg => arg.startsWith('--drop-every='))?.split('=')[1] ?? 0);
+
+const SAMPLE_RATE = 16000;
+const UTTERANCE_SECONDS = 3;
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot'];
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const sockets = new Set();
+let refuseCount = 0;
+let connectionCount = 0;
+
+// --- FRAMING ---
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** Pulls complete client frames (always masked) off the front of `buffer`. */
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (buffer.length < cursor + 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    const payload = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + 4 + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// --- TRANSCRIPTION ---
+
+function handleConnection(socket, id) {
+  let pending = Buffer.alloc(0);
+  let streamSeconds = 0;
+  let utterance = 0;
+  let lastPartialWords = 0;
+
+  const send = (message) => socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  const textFor = (n, words) => `Connection ${id}, utterance ${n + 1}: ${WORDS.slice(0, words).join(' ')}`;
+
+  const onAudio = (bytes) => {
+    streamSeconds += bytes / 2 / SAMPLE_RATE;
+    const utteranceStart = utterance * UTTERANCE_SECONDS;
+    const progress = (streamSeconds - utteranceStart) / UTTERANCE_SECONDS;
+    if (progress >= 1) {
+      const text = textFor(utterance, WORDS.length);
+      const tokens = text.split(' ');
+      const wordSeconds = UTTERANCE_SECONDS / tokens.length;
+      const words = tokens.map((word, i) => ({ text: word, start: utteranceStart + i * wordSeconds, end: utteranceStart + (i + 1) * wordSeconds }));
+      send({ type: 'final', text, start: utteranceStart, end: utteranceStart + UTTERANCE_SECONDS, words });
+      utterance++;
+      lastPartialWords = 0;
+      return;
+    }
+    const words = Math.max(1, Math.ceil(progress * WORDS.length));
+    if (words !== lastPartialWords) {
+      lastPartialWords = words;
+      send({ type: 'partial', text: textFor(utterance, words) });
+    }
+  };
+
+  socket.on('data', (data) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, data]));
+    pending = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x2) {
+        onAudio(payload.length);
+      } else if (opcode === 0x1) {
+        const message = JSON.parse(payload.toString());
+        console.log(`[${id}] ${message.type}`);
+      } else if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+    }
+  });
+  socket.on('close', () => {
+    sockets.delete(socket);
+    console.log(`[${id}] closed after ${streamSeconds.toFixed(1)}s of audio`);
+  });
+  socket.on('error', () => {});
+}
+
+function dropAll(refuse) {
+  refuseCount = refuse;
+  console.log(`Dropping ${sockets.size} connection(s)${refuse ? `, refusing the next ${refuse}` : ''}`);
+  for (const socket of sockets) socket.destroy();
+}
+
+// --- SERVER ---
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  if (req.method === 'POST' && url.pathname === '/drop') {
+    dropAll(Number(url.searchParams.get('refuse') ?? 0));
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  res.writeHead(404);
+  res.end();
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (new URL(req.url, `http://localhost:${port}`).pathname !== '/transcribe' || !key) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+  if (refuseCount > 0) {
+    refuseCount--;
+    console.log(`Refused a connection (${refuseCount} more to refuse)`);
+    socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  const id = ++connectionCount;
+  sockets.add(socket);
+  console.log(`[${id}] connected`);
+  handleConnection(socket, id);
+});
+
+server.listen(port, () => {
+  console.log(`Stub live transcription server listening on ws://localhost:${port}/transcribe`);
+  if (dropEvery > 0) {
+    console.log(`Dropping connections every ${dropEvery}s`);
+    setInterval(() => dropAll(0), dropEvery * 1000);
+  }
+});
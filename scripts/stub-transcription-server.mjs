@@ -0,0 +1,46 @@
+// Local stand-in for the batch transcription backend.
+//
+//   node scripts/stub-transcription-server.mjs [port]
+//
+// then run the app with TRANSCRIPTION_SERVER_URL=http://localhost:8787/transcribe in .env.local.
+// Every chunk is answered with a deterministic transcript describing the chunk, so runs
+// can be compared without calling Gemini.
+import http from 'node:http';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Chunk-Index, X-Chunk-Start, X-Chunk-End',
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST' || req.url !== '/transcribe') {
+    res.writeHead(404, corsHeaders);
+    res.end();
+    return;
+  }
+
+  let bytes = 0;
+  req.on('data', (data) => { bytes += data.length; });
+  req.on('end', () => {
+    const index = Number(req.headers['x-chunk-index'] ?? 0);
+    const start = Number(req.headers['x-chunk-start'] ?? 0);
+    const end = Number(req.headers['x-chunk-end'] ?? 0);
+    // 44-byte WAV header, 16-bit mono samples.
+    const seconds = Math.max(0, bytes - 44) / 2 / 16000;
+    const body = { text: `Chunk ${index + 1}: ${seconds.toFixed(2)}s of audio from ${start.toFixed(2)}s to ${end.toFixed(2)}s.` };
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Stub transcription server listening on http://localhost:${port}/transcribe`);
+});
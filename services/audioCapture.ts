@@ -0,0 +1,53 @@
+import type { AudioSourceMode } from '../types';
+import { createAudioContext, getMediaElementAudio, resample, PCM_SAMPLE_RATE } from '../utils/audio';
+
+export interface AudioCapture {
+  stop: () => void;
+}
+
+/**
+ * Feeds 16 kHz mono PCM from the microphone or from the video element's own
+ * soundtrack to `onAudio`, in ScriptProcessorNode-sized chunks.
+ */
+export async function startAudioCapture(
+  mode: AudioSourceMode,
+  video: HTMLVideoElement | null,
+  onAudio: (samples: Float32Array) => void,
+): Promise<AudioCapture> {
+  let context: AudioContext;
+  let source: AudioNode;
+  let stream: MediaStream | null = null;
+  let ownsContext = false;
+
+  if (mode === 'video') {
+    if (!video) throw new Error("No video to capture audio from.");
+    // The element keeps playing through this context, so it is never closed here.
+    ({ context, source } = getMediaElementAudio(video));
+    await context.resume();
+  } else {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    context = createAudioContext({ sampleRate: PCM_SAMPLE_RATE });
+    ownsContext = true;
+    source = context.createMediaStreamSource(stream);
+  }
+
+  const processor = context.createScriptProcessor(4096, 1, 1);
+  processor.onaudioprocess = (audioProcessingEvent) => {
+    const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
+    onAudio(resample(inputData, context.sampleRate));
+  };
+  source.connect(processor);
+  processor.connect(context.destination);
+
+  return {
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+      stream?.getTracks().forEach(track => track.stop());
+      if (ownsContext && context.state !== 'closed') {
+        context.close();
+      }
+    },
+  };
+}
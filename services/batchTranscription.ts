@@ -0,0 +1,164 @@
+import { GoogleGenAI } from '@google/genai';
+import type { Subtitle } from '../types';
+import { decodeAudioFile, encode, encodeWav, PCM_SAMPLE_RATE } from '../utils/audio';
+import { splitOnSilence, SilenceSplitOptions } from '../utils/silence';
+import { createSubtitleId } from '../utils/subtitles';
+
+export interface BatchChunk {
+  index: number;
+  /** 16 kHz mono PCM. */
+  samples: Float32Array;
+  sampleRate: number;
+  /** Position of the chunk in the source file, in seconds. */
+  startTime: number;
+  endTime: number;
+}
+
+export interface BatchSegment {
+  text: string;
+  /** Seconds relative to the start of the chunk. */
+  start: number;
+  end: number;
+}
+
+export interface BatchChunkResult {
+  text: string;
+  /** Finer timing within the chunk, if the backend provides it. */
+  segments?: BatchSegment[];
+}
+
+/** Anything that can turn one chunk of audio into text. */
+export interface BatchTranscriptionBackend {
+  name: string;
+  transcribe(chunk: BatchChunk, signal: AbortSignal): Promise<BatchChunkResult>;
+}
+
+// --- BACKENDS ---
+
+const GEMINI_BATCH_MODEL = 'gemini-2.5-flash';
+
+const GEMINI_BATCH_PROMPT =
+  'Transcribe the speech in this audio clip verbatim. Reply with the transcript only, ' +
+  'no timestamps, labels or commentary. If there is no intelligible speech, reply with an empty message.';
+
+export function createGeminiBatchBackend(apiKey: string, model: string = GEMINI_BATCH_MODEL): BatchTranscriptionBackend {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'Gemini',
+    async transcribe(chunk, signal) {
+      const wav = encodeWav(chunk.samples, chunk.sampleRate);
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{
+          parts: [
+            { inlineData: { mimeType: 'audio/wav', data: encode(new Uint8Array(wav)) } },
+            { text: GEMINI_BATCH_PROMPT },
+          ],
+        }],
+        config: { abortSignal: signal },
+      });
+      return { text: response.text?.trim() ?? '' };
+    },
+  };
+}
+
+/**
+ * Posts each chunk as `audio/wav` to `url`, with the chunk's position in the
+ * `X-Chunk-Index` / `X-Chunk-Start` / `X-Chunk-End` headers. The server replies with
+ * `{ "text": string, "segments"?: [{ "text", "start", "end" }] }`, segment times in
+ * seconds relative to the chunk. See `scripts/stub-transcription-server.mjs`.
+ */
+export function createHttpBatchBackend(url: string): BatchTranscriptionBackend {
+  return {
+    name: 'HTTP',
+    async transcribe(chunk, signal) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'audio/wav',
+          'X-Chunk-Index': String(chunk.index),
+          'X-Chunk-Start': chunk.startTime.toFixed(3),
+          'X-Chunk-End': chunk.endTime.toFixed(3),
+        },
+        body: encodeWav(chunk.samples, chunk.sampleRate),
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Transcription server responded ${response.status} ${response.statusText}`);
+      }
+      const body = await response.json() as BatchChunkResult;
+      return { text: String(body.text ?? '').trim(), segments: body.segments };
+    },
+  };
+}
+
+// --- RUNNER ---
+
+export interface BatchProgress {
+  phase: 'decoding' | 'transcribing' | 'done';
+  completedChunks: number;
+  totalChunks: number;
+}
+
+export interface BatchTranscriptionOptions {
+  backend: BatchTranscriptionBackend;
+  signal: AbortSignal;
+  onProgress: (progress: BatchProgress) => void;
+  /** Called with each chunk's cues as soon as they are ready. */
+  onSubtitles: (subtitles: Subtitle[]) => void;
+  silence?: Partial<SilenceSplitOptions>;
+}
+
+function chunkToSubtitles(chunk: BatchChunk, result: BatchChunkResult): Subtitle[] {
+  const segments = result.segments?.filter(seg => seg.text?.trim());
+  if (segments && segments.length > 0) {
+    return segments.map(seg => ({
+      id: createSubtitleId(),
+      text: seg.text.trim(),
+      startTime: chunk.startTime + Math.max(0, seg.start),
+      endTime: Math.min(chunk.endTime, chunk.startTime + seg.end),
+    }));
+  }
+  if (!result.text) return [];
+  return [{ id: createSubtitleId(), text: result.text, startTime: chunk.startTime, endTime: chunk.endTime }];
+}
+
+/**
+ * Decodes the file, splits it at silences and transcribes chunk by chunk. Timing
+ * comes from sample offsets, so this runs as fast as the backend allows.
+ * Rejects with an `AbortError` when `signal` is aborted.
+ */
+export async function transcribeFile(file: Blob, options: BatchTranscriptionOptions): Promise<Subtitle[]> {
+  const { backend, signal, onProgress, onSubtitles } = options;
+  const throwIfAborted = () => {
+    if (signal.aborted) throw new DOMException('Batch transcription cancelled.', 'AbortError');
+  };
+
+  onProgress({ phase: 'decoding', completedChunks: 0, totalChunks: 0 });
+  const samples = await decodeAudioFile(file, PCM_SAMPLE_RATE);
+  throwIfAborted();
+
+  const ranges = splitOnSilence(samples, PCM_SAMPLE_RATE, options.silence);
+  const all: Subtitle[] = [];
+  onProgress({ phase: 'transcribing', completedChunks: 0, totalChunks: ranges.length });
+
+  for (let i = 0; i < ranges.length; i++) {
+    throwIfAborted();
+    const { start, end } = ranges[i];
+    const chunk: BatchChunk = {
+      index: i,
+      samples: samples.subarray(start, end),
+      sampleRate: PCM_SAMPLE_RATE,
+      startTime: start / PCM_SAMPLE_RATE,
+      endTime: end / PCM_SAMPLE_RATE,
+    };
+    const result = await backend.transcribe(chunk, signal);
+    const subtitles = chunkToSubtitles(chunk, result);
+    all.push(...subtitles);
+    if (subtitles.length) onSubtitles(subtitles);
+    onProgress({ phase: 'transcribing', completedChunks: i + 1, totalChunks: ranges.length });
+  }
+
+  onProgress({ phase: 'done', completedChunks: ranges.length, totalChunks: ranges.length });
+  return all;
+}
@@ -0,0 +1,174 @@
+import type { Subtitle, CustomizationState } from '../types';
+import { createAudioContext } from '../utils/audio';
+import { drawCaption } from '../utils/captionRenderer';
+import { resolveSubtitleStyle } from '../utils/style';
+
+export interface BurnInOptions {
+  file: Blob;
+  subtitles: Subtitle[];
+  /** Second language stacked under `subtitles`, as in the dual-language display. */
+  secondarySubtitles?: Subtitle[];
+  customization: CustomizationState;
+  /** Height in px of the player the styling was authored against. */
+  referenceHeight: number;
+  signal: AbortSignal;
+  /** 0-1, from the playback position. */
+  onProgress: (progress: number) => void;
+}
+
+const FRAME_RATE = 30;
+
+const RECORDER_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+function pickMimeType(): string {
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+/**
+ * Plays the source through a canvas at 1x, drawing each active cue on top, and records
+ * canvas + original audio with MediaRecorder. Resolves with a WebM blob, or rejects with
+ * an `AbortError` when `signal` fires. Every element, stream and audio context created
+ * here is released either way.
+ */
+export function renderBurnedInVideo(options: BurnInOptions): Promise<Blob> {
+  const { file, subtitles, secondarySubtitles = [], customization, referenceHeight, signal, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    // Detached or display:none videos may not decode frames, so keep it in the DOM but invisible.
+    video.style.cssText = 'position:fixed;left:0;top:0;width:1px;height:1px;opacity:0;pointer-events:none;';
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.src = url;
+    document.body.appendChild(video);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    let audioContext: AudioContext | null = null;
+    let recorder: MediaRecorder | null = null;
+    let stream: MediaStream | null = null;
+    let frameHandle: number | null = null;
+    let settled = false;
+    const chunks: Blob[] = [];
+
+    const release = () => {
+      if (frameHandle !== null) {
+        if ('cancelVideoFrameCallback' in video) video.cancelVideoFrameCallback(frameHandle);
+        cancelAnimationFrame(frameHandle);
+        frameHandle = null;
+      }
+      video.pause();
+      stream?.getTracks().forEach(track => track.stop());
+      if (audioContext && audioContext.state !== 'closed') audioContext.close();
+      video.removeAttribute('src');
+      video.load();
+      video.remove();
+      URL.revokeObjectURL(url);
+      signal.removeEventListener('abort', handleAbort);
+    };
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.ondataavailable = null;
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      release();
+      reject(error);
+    };
+
+    function handleAbort() {
+      fail(new DOMException('Render cancelled.', 'AbortError'));
+    }
+
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+    signal.addEventListener('abort', handleAbort);
+
+    if (!ctx) {
+      fail(new Error("Canvas 2D is not available."));
+      return;
+    }
+
+    const drawFrame = () => {
+      if (settled) return;
+      const width = canvas.width;
+      const height = canvas.height;
+      ctx.drawImage(video, 0, 0, width, height);
+      const time = video.currentTime;
+      const isActive = (s: Subtitle) => time >= s.startTime && time < s.endTime;
+      const active = subtitles.find(isActive);
+      const secondary = secondarySubtitles.find(isActive);
+      if (active || secondary) {
+        drawCaption(
+          ctx,
+          active?.text ?? '',
+          active ? resolveSubtitleStyle(customization, active) : customization,
+          width,
+          height,
+          height / referenceHeight,
+          secondary?.text,
+        );
+      }
+      if (video.duration) onProgress(Math.min(1, time / video.duration));
+      scheduleFrame();
+    };
+
+    const scheduleFrame = () => {
+      frameHandle = 'requestVideoFrameCallback' in video
+        ? video.requestVideoFrameCallback(drawFrame)
+        : requestAnimationFrame(drawFrame);
+    };
+
+    video.onerror = () => fail(new Error("Could not decode the video for rendering."));
+
+    video.onloadedmetadata = async () => {
+      try {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+
+        // Route audio to the recorder only, so rendering is silent for the user.
+        audioContext = createAudioContext();
+        const audioDestination = audioContext.createMediaStreamDestination();
+        audioContext.createMediaElementSource(video).connect(audioDestination);
+
+        stream = new MediaStream([
+          ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+          ...audioDestination.stream.getAudioTracks(),
+        ]);
+        const mimeType = pickMimeType();
+        recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+          if (settled) return;
+          settled = true;
+          release();
+          onProgress(1);
+          resolve(new Blob(chunks, { type: recorder?.mimeType || 'video/webm' }));
+        };
+
+        video.onended = () => {
+          if (recorder && recorder.state !== 'inactive') recorder.stop();
+        };
+
+        await audioContext.resume();
+        recorder.start(1000);
+        scheduleFrame();
+        await video.play();
+      } catch (error) {
+        fail(error as Error);
+      }
+    };
+  });
+}
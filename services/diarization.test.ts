@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Subtitle } from '../types';
+import { createMockDiarizationProvider } from './diarization';
+
+const cue = (id: number, startTime: number, endTime: number): Subtitle => ({ id, text: `Cue ${id}`, startTime, endTime });
+
+describe('createMockDiarizationProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('switches speaker at every pause longer than a second', async () => {
+    const cues = [cue(1, 0, 2), cue(2, 2.5, 4), cue(3, 5.5, 7), cue(4, 7.2, 8), cue(5, 10, 11)];
+    const labels = createMockDiarizationProvider().diarize(new Blob(), cues, new AbortController().signal);
+    await vi.runAllTimersAsync();
+    await expect(labels).resolves.toEqual(['Speaker 1', 'Speaker 1', 'Speaker 2', 'Speaker 2', 'Speaker 1']);
+  });
+
+  it('rejects with an AbortError once cancelled', async () => {
+    const controller = new AbortController();
+    const labels = createMockDiarizationProvider().diarize(new Blob(), [cue(1, 0, 1)], controller.signal);
+    controller.abort();
+    const settled = expect(labels).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.runAllTimersAsync();
+    await settled;
+  });
+});
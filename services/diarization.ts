@@ -0,0 +1,114 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { Subtitle } from '../types';
+import { decodeAudioFile, encode, encodeWav, PCM_SAMPLE_RATE } from '../utils/audio';
+
+/**
+ * Works out who speaks each cue. Resolves with exactly one label per cue, in order;
+ * the same person gets the same label throughout. An empty label means unknown.
+ */
+export interface DiarizationProvider {
+  name: string;
+  diarize(file: Blob, subtitles: Subtitle[], signal: AbortSignal): Promise<string[]>;
+}
+
+export type DiarizationProviderId = 'gemini' | 'mock';
+
+export const DIARIZATION_PROVIDER_OPTIONS: { id: DiarizationProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: 'Listens to the audio and labels each cue, using names when people introduce themselves.' },
+  { id: 'mock', label: 'Mock', description: 'Alternates between two speakers at every pause longer than a second. No network needed.' },
+];
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException('Speaker detection cancelled.', 'AbortError');
+};
+
+// --- PROVIDERS ---
+
+const GEMINI_DIARIZATION_MODEL = 'gemini-2.5-flash';
+/** Inline audio is capped at about 20 MB per request; 16 kHz 16-bit WAV is ~1.9 MB a minute. */
+const GEMINI_MAX_AUDIO_SECONDS = 10 * 60;
+
+function buildDiarizationPrompt(subtitles: Subtitle[]): string {
+  return [
+    'This audio comes with the subtitle cues listed below. Identify who speaks each cue.',
+    "Use a person's name if it is clear from the conversation, otherwise \"Speaker 1\", \"Speaker 2\" and so on,",
+    'always giving the same person the same label. Reply with a JSON array holding exactly one label per cue, in order.',
+    '',
+    'Cues (start-end in seconds):',
+    ...subtitles.map((sub, i) => `${i + 1}. [${sub.startTime.toFixed(1)}-${sub.endTime.toFixed(1)}] ${sub.text.replace(/\s+/g, ' ')}`),
+  ].join('\n');
+}
+
+export function createGeminiDiarizationProvider(apiKey: string, model: string = GEMINI_DIARIZATION_MODEL): DiarizationProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'Gemini',
+    async diarize(file, subtitles, signal) {
+      // Everything after the last cue is irrelevant to the labels, so the cues bound the
+      // audio sent; checking them first avoids decoding a file that would be refused.
+      const lastEnd = Math.max(...subtitles.map(s => s.endTime));
+      if (lastEnd > GEMINI_MAX_AUDIO_SECONDS) {
+        throw new Error(`Gemini speaker detection handles up to ${GEMINI_MAX_AUDIO_SECONDS / 60} minutes of audio.`);
+      }
+      const samples = await decodeAudioFile(file, PCM_SAMPLE_RATE);
+      throwIfAborted(signal);
+      const usedSeconds = Math.min(lastEnd + 1, GEMINI_MAX_AUDIO_SECONDS);
+      const used = samples.subarray(0, Math.min(samples.length, Math.ceil(usedSeconds * PCM_SAMPLE_RATE)));
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{
+          parts: [
+            { inlineData: { mimeType: 'audio/wav', data: encode(new Uint8Array(encodeWav(used, PCM_SAMPLE_RATE))) } },
+            { text: buildDiarizationPrompt(subtitles) },
+          ],
+        }],
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+      });
+      let result: unknown;
+      try {
+        result = JSON.parse(response.text ?? '');
+      } catch {
+        throw new Error("Gemini returned speaker labels that aren't valid JSON.");
+      }
+      if (!Array.isArray(result) || result.length !== subtitles.length) {
+        throw new Error(`Gemini returned ${Array.isArray(result) ? result.length : 'no'} speaker labels for ${subtitles.length} cues.`);
+      }
+      return result.map(label => String(label ?? '').trim());
+    },
+  };
+}
+
+const MOCK_TURN_GAP_SECONDS = 1;
+
+/** Deterministic stand-in for development: a pause of over a second means the other person talks. */
+export function createMockDiarizationProvider(): DiarizationProvider {
+  return {
+    name: 'Mock',
+    async diarize(_file, subtitles, signal) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      throwIfAborted(signal);
+      let speaker = 0;
+      return subtitles.map((sub, i) => {
+        if (i > 0 && sub.startTime - subtitles[i - 1].endTime > MOCK_TURN_GAP_SECONDS) speaker = 1 - speaker;
+        return `Speaker ${speaker + 1}`;
+      });
+    },
+  };
+}
+
+/** Throws if the selected provider can't be configured (e.g. no API key). */
+export function createDiarizationProvider(id: DiarizationProviderId): DiarizationProvider {
+  switch (id) {
+    case 'gemini':
+      if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set.");
+      }
+      return createGeminiDiarizationProvider(process.env.API_KEY);
+    case 'mock':
+      return createMockDiarizationProvider();
+  }
+}
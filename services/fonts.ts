@@ -0,0 +1,52 @@
+import { listFonts, storeFont, deleteFont as deleteStoredFont } from './projectStore';
+import { baseName } from '../utils/download';
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+const registered = new Map<string, FontFace>();
+
+async function register(family: string, data: ArrayBuffer): Promise<void> {
+  const face = new FontFace(family, data);
+  await face.load();
+  const previous = registered.get(family);
+  if (previous) document.fonts.delete(previous);
+  document.fonts.add(face);
+  registered.set(family, face);
+}
+
+/**
+ * Registers a font file with the page under its file name ("My Font.ttf" → "My Font")
+ * and keeps it for later sessions. Rejects if the browser can't parse the file.
+ */
+export async function loadFontFile(file: File): Promise<string> {
+  const family = baseName(file.name).trim() || 'Custom font';
+  const data = await file.arrayBuffer();
+  try {
+    await register(family, data);
+  } catch {
+    throw new Error(`"${file.name}" isn't a font this browser can read.`);
+  }
+  try {
+    await storeFont({ family, fileName: file.name, data });
+  } catch (error) {
+    console.warn("Could not store font; it will only last this session:", error);
+  }
+  return family;
+}
+
+/** Registers every stored font, resolving with the families that loaded. */
+export async function restoreFonts(): Promise<string[]> {
+  const fonts = await listFonts();
+  const results = await Promise.allSettled(fonts.map(font => register(font.family, font.data).then(() => font.family)));
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') console.warn(`Could not load stored font "${fonts[i].family}":`, result.reason);
+  });
+  return results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+}
+
+export async function removeFont(family: string): Promise<void> {
+  const face = registered.get(family);
+  if (face) document.fonts.delete(face);
+  registered.delete(family);
+  await deleteStoredFont(family);
+}
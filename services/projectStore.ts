@@ -0,0 +1,188 @@
+import type { CustomizationState, GlossaryEntry, Project, Speaker, Subtitle, SubtitleTrack, TranscriptAnalysis } from '../types';
+import { INITIAL_CUSTOMIZATION_STATE } from '../constants';
+import { normalizeTracks } from '../utils/tracks';
+
+const DB_NAME = 'subtitle-generator';
+/** v2 added the fonts store. */
+const DB_VERSION = 2;
+const PROJECTS = 'projects';
+/** Video blobs keyed by content fingerprint, so duplicated projects share one copy. */
+const VIDEOS = 'videos';
+/** Font files the user loaded, keyed by family name. Shared by every project. */
+const FONTS = 'fonts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) {
+          db.createObjectStore(PROJECTS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(VIDEOS)) {
+          db.createObjectStore(VIDEOS);
+        }
+        if (!db.objectStoreNames.contains(FONTS)) {
+          db.createObjectStore(FONTS, { keyPath: 'family' });
+        }
+      };
+      // Another tab still holds the previous version open; the upgrade waits until it closes.
+      request.onblocked = () => {
+        console.warn("Project storage is being upgraded but another tab of this app is still open on the old version. Close it to continue.");
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when a newer version of the app in another tab needs to upgrade.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(name: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(name, mode);
+  const result = await promisify(fn(tx.objectStore(name)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
+
+export function createProjectId(): string {
+  return crypto.randomUUID();
+}
+
+// --- PROJECTS ---
+
+/** A project as any earlier version of the app may have stored it. */
+type StoredProjectRecord = Omit<Project, 'tracks' | 'speakers' | 'glossary' | 'analysis' | 'customization'> & {
+  tracks?: SubtitleTrack[];
+  subtitles?: Subtitle[];
+  speakers?: Speaker[];
+  glossary?: GlossaryEntry[];
+  analysis?: TranscriptAnalysis | null;
+  customization?: Partial<CustomizationState>;
+};
+
+/**
+ * Brings older records up to date: those from before tracks existed carry a bare
+ * `subtitles` list, older ones may lack the speaker roster, glossary or analysis, and
+ * customization fields added since then need their defaults.
+ */
+function migrate(record: StoredProjectRecord): Project {
+  const { subtitles, tracks, ...rest } = record;
+  return {
+    ...rest,
+    tracks: normalizeTracks({ tracks, subtitles }),
+    speakers: Array.isArray(record.speakers) ? record.speakers : [],
+    glossary: Array.isArray(record.glossary) ? record.glossary : [],
+    analysis: record.analysis ?? null,
+    customization: { ...INITIAL_CUSTOMIZATION_STATE, ...record.customization },
+  };
+}
+
+/** Most recently edited first. */
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore<StoredProjectRecord[]>(PROJECTS, 'readonly', store => store.getAll());
+  return projects.map(migrate).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  const project = await withStore<StoredProjectRecord | undefined>(PROJECTS, 'readonly', store => store.get(id));
+  return project && migrate(project);
+}
+
+export async function saveProject(project: Project): Promise<void> {
+  await withStore(PROJECTS, 'readwrite', store => store.put(project));
+}
+
+/** Deletes the project, and its video blob if no other project uses it. */
+export async function deleteProject(id: string): Promise<void> {
+  const project = await getProject(id);
+  await withStore(PROJECTS, 'readwrite', store => store.delete(id));
+  if (!project) return;
+  const stillUsed = (await listProjects()).some(p => p.video.hash === project.video.hash);
+  if (!stillUsed) {
+    await withStore(VIDEOS, 'readwrite', store => store.delete(project.video.hash));
+  }
+}
+
+export async function duplicateProject(id: string): Promise<Project | undefined> {
+  const project = await getProject(id);
+  if (!project) return undefined;
+  const now = Date.now();
+  const copy: Project = { ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const project = await getProject(id);
+  if (!project) return;
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+}
+
+// --- VIDEOS ---
+
+export async function getVideoBlob(hash: string): Promise<Blob | undefined> {
+  return withStore<Blob | undefined>(VIDEOS, 'readonly', store => store.get(hash));
+}
+
+/**
+ * Stores the video if it isn't already. Returns false when the browser refuses
+ * (usually quota); the project then only keeps the fingerprint for re-linking.
+ */
+export async function storeVideoBlob(hash: string, blob: Blob): Promise<boolean> {
+  try {
+    const existing = await withStore<IDBValidKey | undefined>(VIDEOS, 'readonly', store => store.getKey(hash));
+    if (existing === undefined) {
+      await withStore(VIDEOS, 'readwrite', store => store.put(blob, hash));
+    }
+    return true;
+  } catch (error) {
+    console.warn("Could not store video in IndexedDB:", error);
+    return false;
+  }
+}
+
+// --- FONTS ---
+
+export interface StoredFont {
+  family: string;
+  fileName: string;
+  data: ArrayBuffer;
+}
+
+export async function listFonts(): Promise<StoredFont[]> {
+  return withStore<StoredFont[]>(FONTS, 'readonly', store => store.getAll());
+}
+
+export async function storeFont(font: StoredFont): Promise<void> {
+  await withStore(FONTS, 'readwrite', store => store.put(font));
+}
+
+export async function deleteFont(family: string): Promise<void> {
+  await withStore(FONTS, 'readwrite', store => store.delete(family));
+}
@@ -0,0 +1,43 @@
+import type { ReadabilityProfile } from '../types';
+import { BUILT_IN_PROFILES, NETFLIX_PROFILE } from '../utils/readability';
+
+const STORAGE_KEY = 'subtitle-generator.readability';
+
+export interface ReadabilitySettings {
+  /** User-defined profiles; the built-ins are never stored. */
+  customProfiles: ReadabilityProfile[];
+  activeProfileId: string;
+}
+
+export const DEFAULT_READABILITY_SETTINGS: ReadabilitySettings = {
+  customProfiles: [],
+  activeProfileId: NETFLIX_PROFILE.id,
+};
+
+export function loadReadabilitySettings(): ReadabilitySettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || !Array.isArray(stored.customProfiles)) return DEFAULT_READABILITY_SETTINGS;
+    return {
+      customProfiles: stored.customProfiles.map((p: ReadabilityProfile) => ({ ...NETFLIX_PROFILE, ...p })),
+      activeProfileId: typeof stored.activeProfileId === 'string' ? stored.activeProfileId : NETFLIX_PROFILE.id,
+    };
+  } catch (error) {
+    console.warn("Could not load readability profiles:", error);
+    return DEFAULT_READABILITY_SETTINGS;
+  }
+}
+
+export function saveReadabilitySettings(settings: ReadabilitySettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save readability profiles:", error);
+  }
+}
+
+export const allProfiles = (settings: ReadabilitySettings) => [...BUILT_IN_PROFILES, ...settings.customProfiles];
+
+/** The active profile, falling back to the default if it was deleted. */
+export const activeProfile = (settings: ReadabilitySettings) =>
+  allProfiles(settings).find(p => p.id === settings.activeProfileId) ?? NETFLIX_PROFILE;
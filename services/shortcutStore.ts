@@ -0,0 +1,27 @@
+import { DEFAULT_KEYMAP, Keymap } from '../utils/shortcuts';
+
+const STORAGE_KEY = 'subtitle-generator.shortcuts';
+
+export function loadKeymap(): Keymap {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_KEYMAP;
+    // Actions added since the keymap was saved get their default key.
+    const keymap = { ...DEFAULT_KEYMAP };
+    for (const action of Object.keys(DEFAULT_KEYMAP) as (keyof Keymap)[]) {
+      if (typeof stored[action] === 'string') keymap[action] = stored[action];
+    }
+    return keymap;
+  } catch (error) {
+    console.warn("Could not load keyboard shortcuts:", error);
+    return DEFAULT_KEYMAP;
+  }
+}
+
+export function saveKeymap(keymap: Keymap) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keymap));
+  } catch (error) {
+    console.warn("Could not save keyboard shortcuts:", error);
+  }
+}
@@ -0,0 +1,27 @@
+import type { StylePreset } from '../types';
+import { BUILT_IN_PRESETS } from '../utils/stylePresets';
+
+const STORAGE_KEY = 'subtitle-generator.style-presets';
+
+/** User-defined presets; the built-ins are never stored. Shared by every project. */
+export function loadCustomPresets(): StylePreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!Array.isArray(stored)) return [];
+    // Fill fields added since the preset was saved.
+    return stored.map((p: StylePreset) => ({ ...p, style: { ...BUILT_IN_PRESETS[0].style, ...p.style } }));
+  } catch (error) {
+    console.warn("Could not load style presets:", error);
+    return [];
+  }
+}
+
+export function saveCustomPresets(presets: StylePreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn("Could not save style presets:", error);
+  }
+}
+
+export const allPresets = (customPresets: StylePreset[]) => [...BUILT_IN_PRESETS, ...customPresets];
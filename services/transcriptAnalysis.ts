@@ -0,0 +1,162 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { Subtitle } from '../types';
+import type { RawAnalysis } from '../utils/chapters';
+import { wordTokens } from '../utils/wordTiming';
+
+/**
+ * Reads a timed transcript and returns chapters, a short summary and a keyword index.
+ * Chapters and keywords refer to cues by their 1-based number in `subtitles`.
+ */
+export interface TranscriptAnalyzer {
+  name: string;
+  analyze(subtitles: Subtitle[], signal: AbortSignal): Promise<RawAnalysis>;
+}
+
+export type AnalysisProviderId = 'gemini' | 'mock';
+
+export const ANALYSIS_PROVIDER_OPTIONS: { id: AnalysisProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: 'Reads the whole transcript and writes chapter titles, a summary and an index of key terms.' },
+  { id: 'mock', label: 'Mock', description: 'Splits the transcript into equal parts and indexes its most frequent long words. No network needed.' },
+];
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException('Transcript analysis cancelled.', 'AbortError');
+};
+
+// --- PROVIDERS ---
+
+const GEMINI_ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+function buildAnalysisPrompt(subtitles: Subtitle[]): string {
+  return [
+    'Below is the timed transcript of a video, one numbered subtitle cue per line. Analyse it and reply with JSON:',
+    '- "summary": two to four sentences on what the video covers, in the language of the transcript.',
+    '- "chapters": the main sections in order, each with the number of the cue where it begins and a title of at most',
+    '  six words. The first chapter begins at cue 1. Prefer fewer, meaningful chapters over many short ones.',
+    '- "keywords": up to 20 important names, topics and terms, each with the numbers of the cues that mention or discuss it.',
+    '',
+    'Cues (start-end in seconds):',
+    ...subtitles.map((sub, i) => `${i + 1}. [${sub.startTime.toFixed(1)}-${sub.endTime.toFixed(1)}] ${sub.text.replace(/\s+/g, ' ')}`),
+  ].join('\n');
+}
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    chapters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { cue: { type: Type.INTEGER }, title: { type: Type.STRING } },
+        required: ['cue', 'title'],
+      },
+    },
+    keywords: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { term: { type: Type.STRING }, cues: { type: Type.ARRAY, items: { type: Type.INTEGER } } },
+        required: ['term', 'cues'],
+      },
+    },
+  },
+  required: ['summary', 'chapters', 'keywords'],
+};
+
+export function createGeminiTranscriptAnalyzer(apiKey: string, model: string = GEMINI_ANALYSIS_MODEL): TranscriptAnalyzer {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'Gemini',
+    async analyze(subtitles, signal) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildAnalysisPrompt(subtitles),
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: ANALYSIS_SCHEMA,
+        },
+      });
+      let result: unknown;
+      try {
+        result = JSON.parse(response.text ?? '');
+      } catch {
+        throw new Error("Gemini returned an analysis that isn't valid JSON.");
+      }
+      if (!isRecord(result) || typeof result.summary !== 'string' || !Array.isArray(result.chapters) || !Array.isArray(result.keywords)) {
+        throw new Error("Gemini's analysis is missing its summary, chapters or keywords.");
+      }
+      // `resolveAnalysis` drops entries pointing at no cue or with a blank title.
+      return {
+        summary: result.summary,
+        chapters: result.chapters.filter(isRecord).map(c => ({ cue: Number(c.cue), title: String(c.title ?? '') })),
+        keywords: result.keywords.filter(isRecord).map(k => ({
+          term: String(k.term ?? ''),
+          cues: Array.isArray(k.cues) ? k.cues.map(Number) : [],
+        })),
+      };
+    },
+  };
+}
+
+const MOCK_CHAPTER_COUNT = 4;
+const MOCK_KEYWORD_COUNT = 10;
+/** Short words are mostly function words; skipping them stands in for a stop-word list. */
+const MOCK_MIN_KEYWORD_LENGTH = 6;
+
+/**
+ * Deterministic stand-in for development: equal-sized chapters titled after their
+ * first words, and the most frequent long words as keywords.
+ */
+export function createMockTranscriptAnalyzer(): TranscriptAnalyzer {
+  return {
+    name: 'Mock',
+    async analyze(subtitles, signal) {
+      await new Promise(resolve => setTimeout(resolve, 300));
+      throwIfAborted(signal);
+      const size = Math.max(1, Math.ceil(subtitles.length / MOCK_CHAPTER_COUNT));
+      const chapters = [];
+      for (let i = 0; i < subtitles.length; i += size) {
+        chapters.push({ cue: i + 1, title: wordTokens(subtitles[i].text).slice(0, 4).join(' ') || `Part ${chapters.length + 1}` });
+      }
+
+      const mentions = new Map<string, number[]>();
+      subtitles.forEach((sub, i) => {
+        for (const token of wordTokens(sub.text)) {
+          const word = token.toLowerCase().replace(/[^\p{L}\p{N}'-]/gu, '');
+          if (word.length < MOCK_MIN_KEYWORD_LENGTH) continue;
+          const cues = mentions.get(word) ?? [];
+          if (cues[cues.length - 1] !== i + 1) cues.push(i + 1);
+          mentions.set(word, cues);
+        }
+      });
+      const keywords = [...mentions]
+        .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+        .slice(0, MOCK_KEYWORD_COUNT)
+        .map(([term, cues]) => ({ term, cues }));
+
+      const duration = subtitles.length > 0 ? subtitles[subtitles.length - 1].endTime - subtitles[0].startTime : 0;
+      return {
+        summary: `${subtitles.length} cues over ${Math.round(duration)} seconds, in ${chapters.length} parts.`,
+        chapters,
+        keywords,
+      };
+    },
+  };
+}
+
+/** Throws if the selected provider can't be configured (e.g. no API key). */
+export function createTranscriptAnalyzer(id: AnalysisProviderId): TranscriptAnalyzer {
+  switch (id) {
+    case 'gemini':
+      if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set.");
+      }
+      return createGeminiTranscriptAnalyzer(process.env.API_KEY);
+    case 'mock':
+      return createMockTranscriptAnalyzer();
+  }
+}
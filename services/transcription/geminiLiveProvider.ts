@@ -0,0 +1,115 @@
+import { GoogleGenAI, LiveServerMessage, Blob, Modality } from '@google/genai';
+import { createBlob } from '../../utils/audio';
+import { wordsFromChunks, TimedChunk } from '../../utils/wordTiming';
+import type { TranscriptionProvider } from './types';
+
+/** The part of the SDK's session we use; the type itself isn't exported. */
+interface LiveSession {
+  sendRealtimeInput(input: { media: Blob }): void;
+  close(): void;
+}
+
+export const DEFAULT_GEMINI_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+/**
+ * Transcription chunks arrive after their speech. Each is assumed to cover the time since
+ * the previous one; the first of an utterance is stretched back at this speaking rate.
+ */
+const NOMINAL_CHARS_PER_SECOND = 15;
+
+export function createGeminiLiveProvider(apiKey: string, model: string = DEFAULT_GEMINI_LIVE_MODEL): TranscriptionProvider {
+  return {
+    id: 'gemini-live',
+    name: 'Gemini Live',
+    requiresAudio: true,
+    async connect({ getTime, callbacks }) {
+      const ai = new GoogleGenAI({ apiKey });
+      let currentTranscription = '';
+      let utteranceStartTime: number | null = null;
+      let chunks: TimedChunk[] = [];
+      let isOpen = false;
+      let closedByClient = false;
+      // `live.connect` only settles once the socket opens, so a failed open would leave it
+      // pending forever. Errors and closes before then reject this instead.
+      let rejectOpen!: (error: Error) => void;
+      const openFailed = new Promise<never>((_, reject) => {
+        rejectOpen = reject;
+      });
+      // Rejections after a successful open have no one waiting on them.
+      openFailed.catch(() => {});
+
+      const connecting: Promise<LiveSession> = ai.live.connect({
+        model,
+        config: {
+          inputAudioTranscription: {},
+          responseModalities: [Modality.AUDIO],
+        },
+        callbacks: {
+          onopen: () => {
+            isOpen = true;
+          },
+          onmessage: (message: LiveServerMessage) => {
+            if (message.serverContent?.inputTranscription) {
+              const { text = '' } = message.serverContent.inputTranscription;
+              const now = getTime();
+              if (currentTranscription === '') {
+                utteranceStartTime = Math.max(0, now - text.trim().length / NOMINAL_CHARS_PER_SECOND);
+              }
+              const chunkStart = chunks.length > 0 ? chunks[chunks.length - 1].endTime : utteranceStartTime ?? now;
+              chunks.push({ text, startTime: Math.min(chunkStart, now), endTime: now });
+              currentTranscription += text;
+              callbacks.onTranscript({
+                type: 'partial',
+                text: currentTranscription.trim(),
+                startTime: utteranceStartTime ?? getTime(),
+                endTime: getTime(),
+              });
+            }
+
+            if (message.serverContent?.turnComplete) {
+              if (currentTranscription.trim()) {
+                callbacks.onTranscript({
+                  type: 'final',
+                  text: currentTranscription.trim(),
+                  startTime: utteranceStartTime ?? getTime(),
+                  endTime: getTime(),
+                  words: wordsFromChunks(chunks),
+                });
+              }
+              currentTranscription = '';
+              utteranceStartTime = null;
+              chunks = [];
+            }
+          },
+          onerror: (e) => {
+            console.error("Gemini API Error:", e);
+            const error = new Error(e.message || e.type);
+            if (isOpen) callbacks.onError(error);
+            else rejectOpen(error);
+          },
+          onclose: () => {
+            if (!isOpen) rejectOpen(new Error("Connection closed before it opened."));
+            else if (!closedByClient) callbacks.onClose();
+          },
+        },
+      });
+      let session: LiveSession;
+      try {
+        session = await Promise.race([connecting, openFailed]);
+      } catch (error) {
+        // Should the SDK connect after all, don't leave the socket open.
+        connecting.then(late => late.close(), () => {});
+        throw error;
+      }
+      isOpen = true;
+
+      return {
+        sendAudio: (samples) => session.sendRealtimeInput({ media: createBlob(samples) }),
+        close: () => {
+          closedByClient = true;
+          session.close();
+        },
+      };
+    },
+  };
+}
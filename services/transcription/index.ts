@@ -0,0 +1,44 @@
+import type { TranscriptionProvider, TranscriptionProviderId } from './types';
+import { createGeminiLiveProvider, DEFAULT_GEMINI_LIVE_MODEL } from './geminiLiveProvider';
+import { createWebSocketProvider } from './websocketProvider';
+import { createMockProvider } from './mockProvider';
+
+export * from './types';
+export { DEFAULT_GEMINI_LIVE_MODEL } from './geminiLiveProvider';
+export { connectWithReconnect, DEFAULT_RECONNECT_OPTIONS } from './reconnectingSession';
+
+export interface TranscriptionSettings {
+  providerId: TranscriptionProviderId;
+  geminiModel: string;
+  websocketUrl: string;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  providerId: 'gemini-live',
+  geminiModel: DEFAULT_GEMINI_LIVE_MODEL,
+  websocketUrl: 'ws://localhost:9000/transcribe',
+};
+
+export const TRANSCRIPTION_PROVIDER_OPTIONS: { id: TranscriptionProviderId; label: string; description: string }[] = [
+  { id: 'gemini-live', label: 'Gemini Live', description: 'Streams audio to the Gemini Live API.' },
+  { id: 'websocket', label: 'WebSocket server', description: 'Streams audio to a self-hosted server (e.g. Whisper) using the JSON protocol in the README.' },
+  { id: 'mock', label: 'Mock (scripted)', description: 'Replays a scripted demo transcript in time with the video. No audio or network needed.' },
+];
+
+/** Throws if the selected provider can't be configured (e.g. no API key). */
+export function createTranscriptionProvider(settings: TranscriptionSettings): TranscriptionProvider {
+  switch (settings.providerId) {
+    case 'gemini-live':
+      if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set.");
+      }
+      return createGeminiLiveProvider(process.env.API_KEY, settings.geminiModel || DEFAULT_GEMINI_LIVE_MODEL);
+    case 'websocket':
+      if (!settings.websocketUrl) {
+        throw new Error("No WebSocket server URL configured.");
+      }
+      return createWebSocketProvider(settings.websocketUrl);
+    case 'mock':
+      return createMockProvider();
+  }
+}
@@ -0,0 +1,81 @@
+import { distributeWords } from '../../utils/wordTiming';
+import type { TranscriptionProvider } from './types';
+
+export interface ScriptedCue {
+  text: string;
+  /** Media time in seconds. */
+  start: number;
+  end: number;
+}
+
+export const DEMO_SCRIPT: ScriptedCue[] = [
+  { text: 'Welcome to the subtitle generator demo.', start: 1, end: 3.5 },
+  { text: 'These captions come from a scripted transcript, not a live model.', start: 4, end: 7.5 },
+  { text: 'They appear in time with the video, just like real transcription.', start: 8, end: 11.5 },
+  { text: 'Try editing a line, or change the font and colour.', start: 12.5, end: 15.5 },
+  { text: 'Drag the caption to move it anywhere on the video.', start: 16, end: 19 },
+  { text: 'When you are done, export to SRT, WebVTT or ASS.', start: 20, end: 23.5 },
+];
+
+/** How often the mock checks the media clock, in ms. */
+const TICK_INTERVAL = 100;
+
+/** Playback jumps larger than this are treated as seeks, and cues skipped over are not emitted. */
+const SEEK_THRESHOLD = 1;
+
+/**
+ * Replays a scripted transcript against the media clock instead of listening to audio.
+ * Words of the current cue are revealed as partials and the cue is finalised when the
+ * clock passes its end, so the output only depends on the script and the playback.
+ */
+export function createMockProvider(script: ScriptedCue[] = DEMO_SCRIPT): TranscriptionProvider {
+  const cues = [...script].sort((a, b) => a.start - b.start);
+  return {
+    id: 'mock',
+    name: 'Mock (scripted)',
+    requiresAudio: false,
+    async connect({ getTime, callbacks }) {
+      let lastTime = getTime();
+      let lastPartial = '';
+
+      const tick = () => {
+        const now = getTime();
+        const isSeek = now < lastTime || now - lastTime > SEEK_THRESHOLD;
+
+        if (!isSeek) {
+          for (const cue of cues) {
+            if (cue.end > lastTime && cue.end <= now) {
+              callbacks.onTranscript({
+                type: 'final',
+                text: cue.text,
+                startTime: cue.start,
+                endTime: cue.end,
+                words: distributeWords(cue.text, cue.start, cue.end),
+              });
+              lastPartial = '';
+            }
+          }
+        }
+
+        const active = cues.find(cue => now >= cue.start && now < cue.end);
+        if (active) {
+          const words = active.text.split(/\s+/);
+          const revealed = Math.max(1, Math.ceil(words.length * (now - active.start) / (active.end - active.start)));
+          const text = words.slice(0, revealed).join(' ');
+          if (text !== lastPartial) {
+            lastPartial = text;
+            callbacks.onTranscript({ type: 'partial', text, startTime: active.start, endTime: now });
+          }
+        }
+
+        lastTime = now;
+      };
+
+      const interval = setInterval(tick, TICK_INTERVAL);
+      return {
+        sendAudio: () => {},
+        close: () => clearInterval(interval),
+      };
+    },
+  };
+}
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, Mock, vi } from 'vitest';
+import { PCM_SAMPLE_RATE } from '../../utils/audio';
+import { createMockProvider } from './mockProvider';
+import { connectWithReconnect, ReconnectingCallbacks, ReconnectOptions } from './reconnectingSession';
+import type { TranscriptEvent, TranscriptionCallbacks, TranscriptionProvider } from './types';
+
+const OPTIONS: ReconnectOptions = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, connectTimeoutMs: 500, maxBufferSeconds: 2 };
+const SCRIPT = [{ text: 'one two three four', start: 0, end: 2 }];
+
+/**
+ * The mock provider, with hooks to drop the open session, refuse or stall the next
+ * connects, and a record of the audio each session receives with its media time.
+ */
+function droppableMock() {
+  const mock = createMockProvider(SCRIPT);
+  const sessions: { callbacks: TranscriptionCallbacks; audio: { seconds: number; time: number }[]; closed: boolean }[] = [];
+  let refuse = 0;
+  let stall: Promise<void> | null = null;
+  const provider: TranscriptionProvider = {
+    ...mock,
+    async connect(options) {
+      if (refuse > 0) {
+        refuse--;
+        throw new Error('Refused.');
+      }
+      if (stall) await stall;
+      const inner = await mock.connect(options);
+      const record = { callbacks: options.callbacks, audio: [] as { seconds: number; time: number }[], closed: false };
+      sessions.push(record);
+      return {
+        sendAudio: (samples) => record.audio.push({ seconds: samples.length / PCM_SAMPLE_RATE, time: options.getTime() }),
+        close: () => {
+          record.closed = true;
+          inner.close();
+        },
+      };
+    },
+  };
+  return {
+    provider,
+    sessions,
+    drop: () => sessions[sessions.length - 1].callbacks.onClose(),
+    refuseNext: (count: number) => { refuse = count; },
+    stallNext: () => {
+      let release!: () => void;
+      stall = new Promise(resolve => { release = resolve; });
+      return () => {
+        stall = null;
+        release();
+      };
+    },
+  };
+}
+
+const seconds = (s: number) => new Float32Array(Math.round(s * PCM_SAMPLE_RATE));
+
+describe('connectWithReconnect with the mock provider', () => {
+  let mediaTime: number;
+  let events: TranscriptEvent[];
+  let callbacks: { [K in keyof ReconnectingCallbacks]: Mock<ReconnectingCallbacks[K]> };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter: attempt n waits exactly baseDelayMs * 2^(n-1).
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    mediaTime = 0;
+    events = [];
+    callbacks = {
+      onTranscript: vi.fn((event: TranscriptEvent) => { events.push(event); }),
+      onError: vi.fn(),
+      onReconnecting: vi.fn(),
+      onReconnected: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const play = async (to: number) => {
+    while (mediaTime < to - 1e-9) {
+      mediaTime = Math.min(to, mediaTime + 0.1);
+      await vi.advanceTimersByTimeAsync(100);
+    }
+  };
+
+  it('passes the transcript through while the session is up', async () => {
+    const { provider } = droppableMock();
+    const session = await connectWithReconnect(provider, () => mediaTime, callbacks, OPTIONS);
+    await play(2.1);
+    session.close();
+    expect(events.filter(e => e.type === 'final').map(e => e.text)).toEqual(['one two three four']);
+    expect(callbacks.onReconnecting).not.toHaveBeenCalled();
+  });
+
+  it('flushes the partial, buffers audio and replays it with its capture times after reconnecting', async () => {
+    const mock = droppableMock();
+    const session = await connectWithReconnect(mock.provider, () => mediaTime, callbacks, OPTIONS);
+    await play(1);
+    mock.drop();
+
+    const flushed = events[events.length - 1];
+    expect(flushed.type).toBe('final');
+    expect(flushed.text).toBe(events[events.length - 2].text);
+    expect(callbacks.onReconnecting).toHaveBeenCalledWith(1, 100, expect.any(Error));
+    expect(mock.sessions[0].closed).toBe(true);
+
+    mediaTime = 1;
+    session.sendAudio(seconds(0.5));
+    mediaTime = 1.05;
+    session.sendAudio(seconds(0.5));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(callbacks.onReconnected).toHaveBeenCalledTimes(1);
+    expect(mock.sessions[1].audio).toEqual([{ seconds: 0.5, time: 1 }, { seconds: 0.5, time: 1.05 }]);
+    session.sendAudio(seconds(0.1));
+    expect(mock.sessions[1].audio[2].time).toBe(1.05);
+    session.close();
+  });
+
+  it('keeps only the newest audio once the buffer is full', async () => {
+    const mock = droppableMock();
+    const session = await connectWithReconnect(mock.provider, () => mediaTime, callbacks, OPTIONS);
+    mock.drop();
+    for (let i = 0; i < 3; i++) {
+      mediaTime = i;
+      session.sendAudio(seconds(1));
+    }
+    session.sendAudio(seconds(2.5));
+    await vi.advanceTimersByTimeAsync(100);
+
+    const replayed = mock.sessions[1].audio;
+    expect(replayed.reduce((total, chunk) => total + chunk.seconds, 0)).toBeCloseTo(OPTIONS.maxBufferSeconds);
+    expect(replayed).toHaveLength(1);
+    session.close();
+  });
+
+  it('retries refused connects with backoff and gives up after the last attempt', async () => {
+    const mock = droppableMock();
+    const session = await connectWithReconnect(mock.provider, () => mediaTime, callbacks, OPTIONS);
+    mock.refuseNext(OPTIONS.maxAttempts);
+    mock.drop();
+    await vi.advanceTimersByTimeAsync(100 + 200 + 400);
+
+    expect(callbacks.onReconnecting.mock.calls.map(([attempt, delay]) => [attempt, delay])).toEqual([[1, 100], [2, 200], [3, 400]]);
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError.mock.calls[0][0].message).toMatch(/after 3 attempts \(Refused\.\)/);
+    expect(callbacks.onReconnected).not.toHaveBeenCalled();
+    session.close();
+  });
+
+  it('counts a connect that never opens as a failed attempt and closes it if it opens late', async () => {
+    const mock = droppableMock();
+    const session = await connectWithReconnect(mock.provider, () => mediaTime, callbacks, OPTIONS);
+    const release = mock.stallNext();
+    mock.drop();
+    await vi.advanceTimersByTimeAsync(100 + OPTIONS.connectTimeoutMs);
+
+    expect(callbacks.onReconnecting).toHaveBeenLastCalledWith(2, 200, expect.objectContaining({ message: expect.stringMatching(/didn't answer/) }));
+    release();
+    await vi.advanceTimersByTimeAsync(200);
+
+    // The stalled session opened after giving up on it; only the retry's is used.
+    expect(mock.sessions).toHaveLength(3);
+    expect(mock.sessions[1].closed).toBe(true);
+    expect(mock.sessions[2].closed).toBe(false);
+    expect(callbacks.onReconnected).toHaveBeenCalledTimes(1);
+    session.close();
+    expect(mock.sessions[2].closed).toBe(true);
+  });
+
+  it('stops retrying once closed', async () => {
+    const mock = droppableMock();
+    const session = await connectWithReconnect(mock.provider, () => mediaTime, callbacks, OPTIONS);
+    mock.drop();
+    session.close();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mock.sessions).toHaveLength(1);
+    expect(callbacks.onReconnected).not.toHaveBeenCalled();
+  });
+});
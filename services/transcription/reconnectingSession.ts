@@ -0,0 +1,184 @@
+import { PCM_SAMPLE_RATE } from '../../utils/audio';
+import type { TranscriptEvent, TranscriptionCallbacks, TranscriptionProvider, TranscriptionSession } from './types';
+
+export interface ReconnectOptions {
+  /** Consecutive failed attempts before giving up with `onError`. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** A reconnect attempt that hasn't opened by then counts as failed. */
+  connectTimeoutMs: number;
+  /** Audio kept for replay while disconnected; older samples are dropped first. */
+  maxBufferSeconds: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 8,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  connectTimeoutMs: 10000,
+  maxBufferSeconds: 120,
+};
+
+export interface ReconnectingCallbacks extends Omit<TranscriptionCallbacks, 'onClose'> {
+  /** The session dropped; attempt `attempt` starts after `delayMs`. */
+  onReconnecting: (attempt: number, delayMs: number, reason: Error) => void;
+  /** A new session is open and the buffered audio has been replayed into it. */
+  onReconnected: () => void;
+}
+
+interface BufferedChunk {
+  samples: Float32Array;
+  /** Media time when the chunk was captured. */
+  mediaTime: number;
+}
+
+/** Exponential backoff with ±20% jitter, so many clients don't retry in lockstep. */
+function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: ReconnectOptions): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Connects through `provider` and keeps the session alive across drops. When the
+ * underlying session errors or closes, the pending partial is flushed as a final cue,
+ * captured audio is buffered, and reconnects are attempted with backoff. On success the
+ * buffer is replayed before live audio resumes, with `getTime` reporting each chunk's
+ * original capture time. Only providers that timestamp by audio position (the WebSocket
+ * provider) keep replayed cues in place; Gemini Live reads `getTime` when a transcript
+ * arrives, so cues from replayed audio land around the time of the reconnect.
+ *
+ * The first connection isn't retried: if it fails the promise rejects as usual.
+ */
+export async function connectWithReconnect(
+  provider: TranscriptionProvider,
+  getTime: () => number,
+  callbacks: ReconnectingCallbacks,
+  options: ReconnectOptions = DEFAULT_RECONNECT_OPTIONS,
+): Promise<TranscriptionSession> {
+  let session: TranscriptionSession | null = null;
+  // Bumped per underlying session, so late callbacks from a dropped one are ignored.
+  let generation = 0;
+  let closed = false;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let pendingPartial: TranscriptEvent | null = null;
+  let replayTime: number | null = null;
+  const buffer: BufferedChunk[] = [];
+  let bufferedSamples = 0;
+  const maxBufferedSamples = options.maxBufferSeconds * PCM_SAMPLE_RATE;
+
+  const sessionTime = () => replayTime ?? getTime();
+
+  const bufferAudio = (samples: Float32Array) => {
+    buffer.push({ samples, mediaTime: getTime() });
+    bufferedSamples += samples.length;
+    while (bufferedSamples > maxBufferedSamples && buffer.length > 1) {
+      bufferedSamples -= buffer.shift()!.samples.length;
+    }
+    if (bufferedSamples > maxBufferedSamples) {
+      buffer[0].samples = buffer[0].samples.subarray(bufferedSamples - maxBufferedSamples);
+      bufferedSamples = maxBufferedSamples;
+    }
+  };
+
+  const open = (): Promise<TranscriptionSession> => {
+    const current = ++generation;
+    const isCurrent = () => current === generation && !closed;
+    return provider.connect({
+      getTime: sessionTime,
+      callbacks: {
+        onTranscript: (event) => {
+          if (!isCurrent()) return;
+          pendingPartial = event.type === 'partial' && event.text ? event : null;
+          callbacks.onTranscript(event);
+        },
+        onError: (error) => {
+          if (isCurrent()) handleDrop(error);
+        },
+        onClose: () => {
+          if (isCurrent()) handleDrop(new Error(`${provider.name} closed the connection.`));
+        },
+      },
+    });
+  };
+
+  /** `open()`, rejecting if the session isn't up within `connectTimeoutMs`; a late one is closed unused. */
+  const openWithTimeout = (): Promise<TranscriptionSession> => {
+    const connecting = open();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        generation++;
+        connecting.then(late => late.close(), () => {});
+        reject(new Error(`${provider.name} didn't answer within ${options.connectTimeoutMs / 1000}s.`));
+      }, options.connectTimeoutMs);
+    });
+    return Promise.race([connecting, timedOut]).finally(() => clearTimeout(timer));
+  };
+
+  const handleDrop = (reason: Error) => {
+    const dropped = session;
+    session = null;
+    generation++;
+    dropped?.close();
+    // Whatever was heard so far would otherwise be lost with the old session.
+    if (pendingPartial) {
+      callbacks.onTranscript({ ...pendingPartial, type: 'final', endTime: Math.max(pendingPartial.endTime, pendingPartial.startTime) });
+      pendingPartial = null;
+    }
+    scheduleReconnect(reason);
+  };
+
+  const scheduleReconnect = (reason: Error) => {
+    if (closed) return;
+    attempt++;
+    if (attempt > options.maxAttempts) {
+      callbacks.onError(new Error(`Lost connection to ${provider.name} and could not reconnect after ${options.maxAttempts} attempts (${reason.message}).`));
+      return;
+    }
+    const delay = backoffDelay(attempt, options);
+    callbacks.onReconnecting(attempt, delay, reason);
+    retryTimer = setTimeout(reconnect, delay);
+  };
+
+  const reconnect = async () => {
+    retryTimer = null;
+    if (closed) return;
+    let next: TranscriptionSession;
+    try {
+      next = await openWithTimeout();
+    } catch (error) {
+      scheduleReconnect(error as Error);
+      return;
+    }
+    if (closed) {
+      next.close();
+      return;
+    }
+    session = next;
+    attempt = 0;
+    for (const chunk of buffer.splice(0)) {
+      replayTime = chunk.mediaTime;
+      next.sendAudio(chunk.samples);
+    }
+    replayTime = null;
+    bufferedSamples = 0;
+    callbacks.onReconnected();
+  };
+
+  session = await open();
+
+  return {
+    sendAudio: (samples) => {
+      if (session) session.sendAudio(samples);
+      else if (!closed) bufferAudio(samples);
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer !== null) clearTimeout(retryTimer);
+      session?.close();
+      session = null;
+    },
+  };
+}
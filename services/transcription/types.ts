@@ -0,0 +1,45 @@
+import type { SubtitleWord } from '../../types';
+
+export type TranscriptionProviderId = 'gemini-live' | 'websocket' | 'mock';
+
+/** Connection state of a live session, as shown to the operator. */
+export type SessionHealth = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'error';
+
+export interface TranscriptEvent {
+  /** Partials carry the whole utterance so far and are superseded by the next event. */
+  type: 'partial' | 'final';
+  text: string;
+  /** Media time in seconds. */
+  startTime: number;
+  endTime: number;
+  /** Per-word timing, when the provider can tell. */
+  words?: SubtitleWord[];
+}
+
+export interface TranscriptionCallbacks {
+  onTranscript: (event: TranscriptEvent) => void;
+  onError: (error: Error) => void;
+  /** The remote end went away. Not called after `close()`. */
+  onClose: () => void;
+}
+
+export interface TranscriptionConnectOptions {
+  /** Current media time; used to timestamp utterances. */
+  getTime: () => number;
+  callbacks: TranscriptionCallbacks;
+}
+
+export interface TranscriptionSession {
+  /** 16 kHz mono PCM. */
+  sendAudio: (samples: Float32Array) => void;
+  close: () => void;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  name: string;
+  /** False for providers that don't listen (the mock), so no audio is captured. */
+  requiresAudio: boolean;
+  /** Resolves once the session is open and ready for audio. */
+  connect: (options: TranscriptionConnectOptions) => Promise<TranscriptionSession>;
+}
@@ -0,0 +1,141 @@
+import { PCM_SAMPLE_RATE } from '../../utils/audio';
+import type { TranscriptionProvider } from './types';
+
+/*
+ * WebSocket transcription protocol (e.g. a self-hosted Whisper server).
+ *
+ * Client -> server
+ *   {"type": "start", "sampleRate": 16000, "encoding": "pcm_s16le", "channels": 1}
+ *       Sent once, right after the socket opens.
+ *   <binary frame>
+ *       Little-endian signed 16-bit mono PCM at `sampleRate`.
+ *   {"type": "stop"}
+ *       Sent before the client closes the socket.
+ *
+ * Server -> client
+ *   {"type": "partial", "text": "..."}
+ *       The utterance so far. Replaces the previous partial; does not append to it.
+ *   {"type": "final", "text": "...", "start"?: number, "end"?: number,
+ *    "words"?: [{"text": "...", "start": number, "end": number}]}
+ *       A finished utterance. `start`/`end` are optional and measured in seconds of
+ *       audio since "start"; without them the client timestamps the cue itself.
+ *       `words`, also optional and on the same clock, gives per-word timing.
+ *   {"type": "error", "message": "..."}
+ *       A fatal error. The client reports it and closes the socket.
+ */
+
+type ServerMessage =
+  | { type: 'partial'; text: string }
+  | { type: 'final'; text: string; start?: number; end?: number; words?: { text: string; start: number; end: number }[] }
+  | { type: 'error'; message: string };
+
+function toPcm16(samples: Float32Array): ArrayBuffer {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16.buffer;
+}
+
+export function createWebSocketProvider(url: string): TranscriptionProvider {
+  return {
+    id: 'websocket',
+    name: 'WebSocket server',
+    requiresAudio: true,
+    connect({ getTime, callbacks }) {
+      return new Promise((resolve, reject) => {
+        let socket: WebSocket;
+        try {
+          socket = new WebSocket(url);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+        socket.binaryType = 'arraybuffer';
+
+        let isOpen = false;
+        let closedByClient = false;
+        let utteranceStartTime: number | null = null;
+        // Media time at each sent frame, so stream-relative server timings can be mapped
+        // back to the video even if the operator seeks while recording.
+        const anchors: { streamTime: number; mediaTime: number }[] = [];
+        let streamTime = 0;
+
+        const toMediaTime = (t: number) => {
+          if (anchors.length === 0) return getTime();
+          let lo = 0;
+          let hi = anchors.length - 1;
+          while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (anchors[mid].streamTime <= t) lo = mid;
+            else hi = mid - 1;
+          }
+          return anchors[lo].mediaTime + Math.max(0, t - anchors[lo].streamTime);
+        };
+
+        socket.onopen = () => {
+          isOpen = true;
+          socket.send(JSON.stringify({ type: 'start', sampleRate: PCM_SAMPLE_RATE, encoding: 'pcm_s16le', channels: 1 }));
+          resolve({
+            sendAudio: (samples) => {
+              if (socket.readyState !== WebSocket.OPEN) return;
+              anchors.push({ streamTime, mediaTime: getTime() });
+              streamTime += samples.length / PCM_SAMPLE_RATE;
+              socket.send(toPcm16(samples));
+            },
+            close: () => {
+              closedByClient = true;
+              if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'stop' }));
+              }
+              socket.close();
+            },
+          });
+        };
+
+        socket.onmessage = (event) => {
+          if (typeof event.data !== 'string') return;
+          let message: ServerMessage;
+          try {
+            message = JSON.parse(event.data);
+          } catch {
+            console.warn("Ignoring malformed transcription message:", event.data);
+            return;
+          }
+
+          if (message.type === 'partial') {
+            if (utteranceStartTime === null) utteranceStartTime = getTime();
+            callbacks.onTranscript({ type: 'partial', text: message.text, startTime: utteranceStartTime, endTime: getTime() });
+          } else if (message.type === 'final') {
+            const hasTiming = typeof message.start === 'number' && typeof message.end === 'number';
+            const startTime = hasTiming ? toMediaTime(message.start!) : utteranceStartTime ?? getTime();
+            const endTime = hasTiming ? toMediaTime(message.end!) : getTime();
+            utteranceStartTime = null;
+            if (message.text?.trim()) {
+              const words = Array.isArray(message.words)
+                ? message.words.map(w => ({ text: String(w.text), startTime: toMediaTime(w.start), endTime: toMediaTime(w.end) }))
+                : undefined;
+              callbacks.onTranscript({ type: 'final', text: message.text.trim(), startTime, endTime: Math.max(startTime, endTime), words });
+            }
+          } else if (message.type === 'error') {
+            callbacks.onError(new Error(message.message));
+            closedByClient = true;
+            socket.close();
+          }
+        };
+
+        socket.onerror = () => {
+          const error = new Error(`WebSocket error talking to ${url}`);
+          if (isOpen) callbacks.onError(error);
+          else reject(error);
+        };
+
+        socket.onclose = () => {
+          if (!isOpen) reject(new Error(`Could not connect to ${url}`));
+          else if (!closedByClient) callbacks.onClose();
+        };
+      });
+    },
+  };
+}
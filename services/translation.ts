@@ -0,0 +1,134 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { Subtitle } from '../types';
+import { languageName } from '../constants';
+import { createSubtitleId } from '../utils/subtitles';
+
+export interface TranslationRequest {
+  /** Language codes; `source` may be `und` to let the provider detect it. */
+  source: string;
+  target: string;
+  /** Cue text immediately before this batch, for continuity. Not translated. */
+  context: string[];
+}
+
+/** Translates a batch of cue texts, returning exactly one string per input, in order. */
+export interface TranslationProvider {
+  name: string;
+  translate(texts: string[], request: TranslationRequest, signal: AbortSignal): Promise<string[]>;
+}
+
+export type TranslationProviderId = 'gemini' | 'mock';
+
+export const TRANSLATION_PROVIDER_OPTIONS: { id: TranslationProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: 'Translates with Gemini, a batch of cues at a time.' },
+  { id: 'mock', label: 'Mock', description: 'Prefixes each cue with the target language code. No network needed.' },
+];
+
+// --- PROVIDERS ---
+
+const GEMINI_TRANSLATION_MODEL = 'gemini-2.5-flash';
+
+function buildTranslationPrompt(texts: string[], { source, target, context }: TranslationRequest): string {
+  const from = source === 'und' ? 'the source language' : languageName(source);
+  const lines = [
+    `Translate these video subtitles from ${from} to ${languageName(target)} (${target}).`,
+    'Each numbered line is one on-screen cue. Keep cues short enough to read at a glance, keep the meaning and tone,',
+    'and do not merge or split cues. Reply with a JSON array holding exactly one translated string per input line, in order.',
+  ];
+  if (context.length > 0) {
+    lines.push('', 'For context only, the cues just before these were (do not translate them):');
+    context.forEach(text => lines.push(`- ${text}`));
+  }
+  lines.push('', 'Cues:');
+  texts.forEach((text, i) => lines.push(`${i + 1}. ${text}`));
+  return lines.join('\n');
+}
+
+export function createGeminiTranslationProvider(apiKey: string, model: string = GEMINI_TRANSLATION_MODEL): TranslationProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'Gemini',
+    async translate(texts, request, signal) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildTranslationPrompt(texts, request),
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+      });
+      let result: unknown;
+      try {
+        result = JSON.parse(response.text ?? '');
+      } catch {
+        throw new Error("Gemini returned a translation that isn't valid JSON.");
+      }
+      if (!Array.isArray(result) || result.length !== texts.length) {
+        throw new Error(`Gemini returned ${Array.isArray(result) ? result.length : 'no'} translations for ${texts.length} cues.`);
+      }
+      return result.map(text => String(text).trim());
+    },
+  };
+}
+
+/** Deterministic stand-in for development: `Hello` → `[fr] Hello`. */
+export function createMockTranslationProvider(): TranslationProvider {
+  return {
+    name: 'Mock',
+    async translate(texts, { target }, signal) {
+      await new Promise(resolve => setTimeout(resolve, 150));
+      if (signal.aborted) throw new DOMException('Translation cancelled.', 'AbortError');
+      return texts.map(text => `[${target}] ${text}`);
+    },
+  };
+}
+
+/** Throws if the selected provider can't be configured (e.g. no API key). */
+export function createTranslationProvider(id: TranslationProviderId): TranslationProvider {
+  switch (id) {
+    case 'gemini':
+      if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set.");
+      }
+      return createGeminiTranslationProvider(process.env.API_KEY);
+    case 'mock':
+      return createMockTranslationProvider();
+  }
+}
+
+// --- RUNNER ---
+
+const BATCH_SIZE = 20;
+const CONTEXT_SIZE = 3;
+
+export interface TranslateCuesOptions {
+  provider: TranslationProvider;
+  source: string;
+  target: string;
+  signal: AbortSignal;
+  /** Number of cues translated so far, out of `subtitles.length`. */
+  onProgress: (completed: number) => void;
+}
+
+/**
+ * Translates cues in order, `BATCH_SIZE` at a time, passing the last few source cues
+ * of the previous batch as context. Resolves with new cues that keep the originals'
+ * timing and style; rejects with an `AbortError` when `signal` is aborted.
+ */
+export async function translateCues(subtitles: Subtitle[], options: TranslateCuesOptions): Promise<Subtitle[]> {
+  const { provider, source, target, signal, onProgress } = options;
+  const translated: Subtitle[] = [];
+  onProgress(0);
+
+  for (let start = 0; start < subtitles.length; start += BATCH_SIZE) {
+    if (signal.aborted) throw new DOMException('Translation cancelled.', 'AbortError');
+    const batch = subtitles.slice(start, start + BATCH_SIZE);
+    const context = subtitles.slice(Math.max(0, start - CONTEXT_SIZE), start).map(sub => sub.text);
+    const texts = await provider.translate(batch.map(sub => sub.text), { source, target, context }, signal);
+    // Word timings belong to the source language's words.
+    batch.forEach((sub, i) => translated.push({ ...sub, id: createSubtitleId(), text: texts[i] ?? sub.text, words: undefined }));
+    onProgress(translated.length);
+  }
+  return translated;
+}
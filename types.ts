@@ -1,15 +1,156 @@
 
+/** Timing of one whitespace-separated word of a cue's text, in media seconds. */
+export interface SubtitleWord {
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
 export interface Subtitle {
   id: number;
   text: string;
   startTime: number;
   endTime: number;
+  /** Per-cue overrides; unset fields inherit from the global `CustomizationState`. */
+  style?: StyleOverrides;
+  /** One entry per word of `text`, in order. Ignored once the word count no longer matches. */
+  words?: SubtitleWord[];
+  /** Id of a `Speaker` in the project's roster. */
+  speakerId?: string;
 }
 
+export interface Speaker {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/** How the speaker of a cue shows on screen and in exports. */
+export type SpeakerDisplay = 'off' | 'name' | 'color' | 'both';
+
+/** A preferred spelling, applied to new cues as they arrive. */
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  /** Misheard or alternative spellings that should become `term`. */
+  variants: string[];
+}
+
+/** How profanity is masked on screen and in exports; the stored text is never changed. */
+export type ProfanityMask = 'off' | 'asterisks' | 'bleep';
+
+export interface SubtitleTrack {
+  id: string;
+  name: string;
+  /** BCP 47 code, e.g. `en` or `pt-BR`; `und` when unknown. */
+  language: string;
+  subtitles: Subtitle[];
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
 export interface CustomizationState {
   fontSize: number;
   color: string;
   fontFamily: string;
+  bold: boolean;
+  italic: boolean;
+  /** Multiple of the font size. */
+  lineHeight: number;
+  textAlign: TextAlign;
+  /** Widest the caption box may grow before wrapping, in % of the video width. */
+  maxWidth: number;
+  /** Stroke around the letters in px; 0 for none. */
+  outlineWidth: number;
+  outlineColor: string;
+  shadowColor: string;
+  /** Shadow offset right and down, in px. */
+  shadowOffset: number;
+  shadowBlur: number;
   position: { x: number; y: number };
+  /** Any CSS colour; the alpha channel is the box's opacity. */
   backgroundColor: string;
+  /** Horizontal padding of the box in em; the vertical padding is 40% of it. */
+  backgroundPadding: number;
+  /** Highlight the word being spoken, for cues with word timings. */
+  karaoke: boolean;
+  highlightColor: string;
+  speakerDisplay: SpeakerDisplay;
+  profanityMask: ProfanityMask;
+  /** Masked in addition to the built-in list. */
+  profanityWords: string[];
+}
+
+export type StyleOverrides = Partial<CustomizationState>;
+
+/** The look of captions, without where they sit or what they say. */
+export type PresetStyle = Omit<CustomizationState, 'position' | 'speakerDisplay' | 'profanityMask' | 'profanityWords'>;
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  style: PresetStyle;
+}
+
+/** Whether dragging the on-screen caption moves every cue or only the one being shown. */
+export type DragScope = 'all' | 'cue';
+
+/** A section of the video, running until the next chapter starts. */
+export interface Chapter {
+  startTime: number;
+  title: string;
+}
+
+export interface KeywordEntry {
+  term: string;
+  /** Start times of the cues that mention it, in order. */
+  times: number[];
+}
+
+/** Chapters, summary and keyword index generated from one track's transcript. */
+export interface TranscriptAnalysis {
+  /** The track it was made from; its cues may have been edited since. */
+  trackId: string;
+  createdAt: number;
+  summary: string;
+  /** The first always starts at 0. */
+  chapters: Chapter[];
+  keywords: KeywordEntry[];
+}
+
+export interface ProjectVideo {
+  fileName: string;
+  type: string;
+  size: number;
+  /** Content fingerprint, used to find the stored blob or verify a re-linked file. */
+  hash: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  video: ProjectVideo;
+  tracks: SubtitleTrack[];
+  /** Shared by every track, so translations keep their speakers. */
+  speakers: Speaker[];
+  glossary: GlossaryEntry[];
+  customization: CustomizationState;
+  analysis: TranscriptAnalysis | null;
+}
+
+export type AudioSourceMode = 'microphone' | 'video';
+
+/** Limits a cue must meet to be comfortably readable. Durations are in seconds. */
+export interface ReadabilityProfile {
+  id: string;
+  name: string;
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCharsPerSecond: number;
+  minDuration: number;
+  maxDuration: number;
+  /** Minimum pause between the end of one cue and the start of the next. */
+  minGap: number;
 }
@@ -0,0 +1,146 @@
+import type { Blob as MediaBlob } from '@google/genai';
+
+/** Sample rate of the PCM the live session expects. */
+export const PCM_SAMPLE_RATE = 16000;
+
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function createBlob(data: Float32Array): MediaBlob {
+  const l = data.length;
+  const int16 = new Int16Array(l);
+  for (let i = 0; i < l; i++) {
+    int16[i] = Math.max(-1, Math.min(1, data[i])) * 32768;
+  }
+  return {
+    data: encode(new Uint8Array(int16.buffer)),
+    mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE}`,
+  };
+}
+
+/**
+ * Resamples mono PCM. When downsampling, each output sample is the mean of the
+ * input samples it covers, which is a cheap low-pass that keeps speech intelligible.
+ */
+export function resample(data: Float32Array, fromRate: number, toRate: number = PCM_SAMPLE_RATE): Float32Array {
+  if (fromRate === toRate) return data;
+  const ratio = fromRate / toRate;
+  const outLength = Math.floor(data.length / ratio);
+  const out = new Float32Array(outLength);
+
+  if (ratio < 1) {
+    // Upsampling: linear interpolation.
+    for (let i = 0; i < outLength; i++) {
+      const pos = i * ratio;
+      const idx = Math.floor(pos);
+      const next = Math.min(idx + 1, data.length - 1);
+      out[i] = data[idx] + (data[next] - data[idx]) * (pos - idx);
+    }
+    return out;
+  }
+
+  for (let i = 0; i < outLength; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(data.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += data[j];
+    out[i] = end > start ? sum / (end - start) : data[start] ?? 0;
+  }
+  return out;
+}
+
+/** Quietest level the meter shows, in dBFS; anything below reads as 0. */
+const LEVEL_FLOOR_DB = -60;
+
+/** RMS level of a chunk mapped from [-60, 0] dBFS to 0-1, for a level meter. */
+export function measureLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  if (rms === 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.max(0, Math.min(1, 1 - db / LEVEL_FLOOR_DB));
+}
+
+export function createAudioContext(options?: AudioContextOptions): AudioContext {
+  return new (window.AudioContext || (window as any).webkitAudioContext)(options);
+}
+
+interface MediaElementAudio {
+  context: AudioContext;
+  source: MediaElementAudioSourceNode;
+}
+
+const mediaElementAudio = new WeakMap<HTMLMediaElement, MediaElementAudio>();
+
+/**
+ * `createMediaElementSource` can only be called once per element, and from then on the
+ * element only plays through that context. So the context is created once per element,
+ * routed to the speakers, and kept open for the element's lifetime.
+ */
+export function getMediaElementAudio(element: HTMLMediaElement): MediaElementAudio {
+  let entry = mediaElementAudio.get(element);
+  if (!entry) {
+    const context = createAudioContext();
+    const source = context.createMediaElementSource(element);
+    source.connect(context.destination);
+    entry = { context, source };
+    mediaElementAudio.set(element, entry);
+  }
+  return entry;
+}
+
+/**
+ * Decodes an audio/video file's soundtrack into mono PCM at `sampleRate`. Decoding in a
+ * context at that rate makes the browser resample as it decodes, rather than handing
+ * back a buffer at the file's own (often 48 kHz) rate first.
+ */
+export async function decodeAudioFile(file: Blob, sampleRate: number = PCM_SAMPLE_RATE): Promise<Float32Array> {
+  const data = await file.arrayBuffer();
+  // Offline contexts accept any rate and need no closing; only decodeAudioData is used.
+  const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data);
+  if (decoded.numberOfChannels === 1) return decoded.getChannelData(0);
+
+  const mono = new Float32Array(decoded.length);
+  for (let c = 0; c < decoded.numberOfChannels; c++) {
+    const channel = decoded.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / decoded.numberOfChannels;
+  }
+  return mono;
+}
+
+/** Wraps mono float PCM in a 16-bit WAV container. */
+export function encodeWav(samples: Float32Array, sampleRate: number = PCM_SAMPLE_RATE): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return buffer;
+}
@@ -0,0 +1,110 @@
+import type { CustomizationState } from '../types';
+import { cssFont, hasShadow, VERTICAL_PADDING_RATIO } from './typography';
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  // Explicit line breaks are kept, as in the overlay's `white-space: pre-line`.
+  const lines: string[] = [];
+  for (const paragraph of text.trim().split('\n')) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    let line = '';
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+/** Size of the second language line relative to the main text, here and in the overlay. */
+export const SECONDARY_TEXT_SCALE = 0.8;
+
+/**
+ * Draws a caption onto a canvas using the same rules as `DraggableSubtitle`:
+ * horizontally centred on `position.x`, top edge at `position.y`, at most `maxWidth`%
+ * of the frame wide, with the style's padding, 5px rounded background, outline,
+ * shadow and line alignment. `secondaryText`, from a dual-language display, is
+ * stacked below in the same box at `SECONDARY_TEXT_SCALE`.
+ *
+ * `scale` converts the on-screen px the style was authored in to canvas px.
+ */
+export function drawCaption(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: CustomizationState,
+  width: number,
+  height: number,
+  scale: number,
+  secondaryText?: string,
+) {
+  const fontSize = style.fontSize * scale;
+  const padX = fontSize * style.backgroundPadding;
+  const padY = padX * VERTICAL_PADDING_RATIO;
+
+  ctx.save();
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = style.textAlign;
+
+  const centerX = (style.position.x / 100) * width;
+  const top = (style.position.y / 100) * height;
+  const maxTextWidth = Math.max(fontSize, (style.maxWidth / 100) * width - padX * 2);
+  const wrapAt = (content: string, size: number) => {
+    ctx.font = cssFont(style, size);
+    return wrapText(ctx, content, maxTextWidth).map(line => ({ line, size }));
+  };
+  const lines = [
+    ...wrapAt(text, fontSize),
+    ...(secondaryText ? wrapAt(secondaryText, fontSize * SECONDARY_TEXT_SCALE) : []),
+  ];
+  if (lines.length === 0) {
+    ctx.restore();
+    return;
+  }
+
+  const textWidth = Math.max(...lines.map(({ line, size }) => {
+    ctx.font = cssFont(style, size);
+    return ctx.measureText(line).width;
+  }));
+  const boxWidth = textWidth + padX * 2;
+  const boxHeight = lines.reduce((total, { size }) => total + size * style.lineHeight, 0) + padY * 2;
+  const boxLeft = centerX - boxWidth / 2;
+
+  ctx.fillStyle = style.backgroundColor;
+  ctx.beginPath();
+  ctx.roundRect(boxLeft, top, boxWidth, boxHeight, 5 * scale);
+  ctx.fill();
+
+  const lineX = style.textAlign === 'left' ? boxLeft + padX : style.textAlign === 'right' ? boxLeft + boxWidth - padX : centerX;
+  const outline = style.outlineWidth * scale;
+  const setShadow = (on: boolean) => {
+    ctx.shadowColor = on && hasShadow(style) ? style.shadowColor : 'transparent';
+    ctx.shadowOffsetX = style.shadowOffset * scale;
+    ctx.shadowOffsetY = style.shadowOffset * scale;
+    ctx.shadowBlur = style.shadowBlur * scale;
+  };
+  ctx.fillStyle = style.color;
+  ctx.strokeStyle = style.outlineColor;
+  ctx.lineJoin = 'round';
+  // A centred stroke twice as wide, under the fill, leaves `outline` px outside the glyphs.
+  ctx.lineWidth = outline * 2;
+  let y = top + padY;
+  lines.forEach(({ line, size }) => {
+    const lineHeight = size * style.lineHeight;
+    const middle = y + lineHeight / 2;
+    ctx.font = cssFont(style, size);
+    // Only the bottom layer casts the shadow, so the outline doesn't double it.
+    if (outline > 0) {
+      setShadow(true);
+      ctx.strokeText(line, lineX, middle);
+    }
+    setShadow(outline <= 0);
+    ctx.fillText(line, lineX, middle);
+    y += lineHeight;
+  });
+  ctx.restore();
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { Subtitle } from '../types';
+import { chapterAt, formatChapterTime, resolveAnalysis, toVTTChapters, toYouTubeChapters } from './chapters';
+
+const subtitles: Subtitle[] = [0, 5, 20, 40, 45].map((startTime, i) => ({ id: i + 1, text: `Cue ${i + 1}`, startTime, endTime: startTime + 4 }));
+
+describe('resolveAnalysis', () => {
+  it('turns cue numbers into sorted times and starts the first chapter at 0', () => {
+    const { chapters } = resolveAnalysis({
+      summary: ' A talk. ',
+      chapters: [{ cue: 4, title: 'End' }, { cue: 2, title: 'Start' }, { cue: 3, title: 'Middle' }],
+      keywords: [],
+    }, subtitles);
+    expect(chapters).toEqual([
+      { startTime: 0, title: 'Start' },
+      { startTime: 20, title: 'Middle' },
+      { startTime: 40, title: 'End' },
+    ]);
+  });
+
+  it('drops chapters that are too close together, out of range or untitled', () => {
+    const { summary, chapters } = resolveAnalysis({
+      summary: ' A talk. ',
+      chapters: [{ cue: 1, title: 'Intro' }, { cue: 2, title: 'Too soon' }, { cue: 9, title: 'Nowhere' }, { cue: 3, title: ' ' }, { cue: 4, title: 'Main' }],
+      keywords: [],
+    }, subtitles);
+    expect(summary).toBe('A talk.');
+    expect(chapters.map(c => c.title)).toEqual(['Intro', 'Main']);
+  });
+
+  it('merges duplicate keywords and drops ones without a valid cue', () => {
+    const { keywords } = resolveAnalysis({
+      summary: '',
+      chapters: [],
+      keywords: [{ term: 'React', cues: [3, 1, 3] }, { term: 'react', cues: [2] }, { term: 'Ghost', cues: [0, 99] }],
+    }, subtitles);
+    expect(keywords).toEqual([{ term: 'React', times: [0, 20] }]);
+  });
+});
+
+describe('chapterAt', () => {
+  it('finds the chapter playing at a time', () => {
+    const chapters = [{ startTime: 0, title: 'A' }, { startTime: 30, title: 'B' }];
+    expect(chapterAt(chapters, 29.9)?.title).toBe('A');
+    expect(chapterAt(chapters, 30)?.title).toBe('B');
+    expect(chapterAt([], 5)).toBeNull();
+  });
+});
+
+describe('chapter export', () => {
+  const chapters = [{ startTime: 0, title: 'Intro' }, { startTime: 65, title: 'The  main\npart' }];
+
+  it('formats times with hours only when needed', () => {
+    expect(formatChapterTime(65, false)).toBe('1:05');
+    expect(formatChapterTime(3725, true)).toBe('1:02:05');
+  });
+
+  it('writes a YouTube chapter list', () => {
+    expect(toYouTubeChapters(chapters, 120)).toBe('0:00 Intro\n1:05 The main part\n');
+  });
+
+  it('writes WebVTT chapters ending where the next begins', () => {
+    expect(toVTTChapters(chapters, 120)).toBe([
+      'WEBVTT',
+      '',
+      'Chapter 1',
+      '00:00:00.000 --> 00:01:05.000',
+      'Intro',
+      '',
+      'Chapter 2',
+      '00:01:05.000 --> 00:02:00.000',
+      'The main part',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,85 @@
+import type { Chapter, KeywordEntry, Subtitle } from '../types';
+import { formatTimestamp } from './subtitleFormats';
+
+/** YouTube ignores chapter lists with a chapter shorter than this, in seconds. */
+export const MIN_CHAPTER_LENGTH = 10;
+const MAX_KEYWORDS = 30;
+
+/**
+ * Analysis as a provider returns it, pointing at cues by their 1-based number
+ * in the list it was given rather than by time.
+ */
+export interface RawAnalysis {
+  summary: string;
+  chapters: { cue: number; title: string }[];
+  keywords: { term: string; cues: number[] }[];
+}
+
+/**
+ * Turns cue numbers into times and tidies the result: chapters are sorted, at least
+ * `MIN_CHAPTER_LENGTH` apart and start with one at 0; keywords without a valid cue are dropped.
+ */
+export function resolveAnalysis(raw: RawAnalysis, subtitles: Subtitle[]): { summary: string; chapters: Chapter[]; keywords: KeywordEntry[] } {
+  const cueStart = (n: number) => subtitles[Math.round(n) - 1]?.startTime;
+
+  const candidates = raw.chapters
+    .map(c => ({ startTime: cueStart(c.cue), title: c.title.trim() }))
+    .filter((c): c is Chapter => c.startTime !== undefined && c.title !== '')
+    .sort((a, b) => a.startTime - b.startTime);
+  const chapters: Chapter[] = [];
+  for (const chapter of candidates) {
+    const previous = chapters[chapters.length - 1];
+    if (!previous) chapters.push({ ...chapter, startTime: 0 });
+    else if (chapter.startTime - previous.startTime >= MIN_CHAPTER_LENGTH) chapters.push(chapter);
+  }
+
+  const seen = new Set<string>();
+  const keywords = raw.keywords.flatMap(k => {
+    const term = k.term.trim();
+    const times = [...new Set(k.cues.map(cueStart).filter((t): t is number => t !== undefined))].sort((a, b) => a - b);
+    if (!term || times.length === 0 || seen.has(term.toLowerCase())) return [];
+    seen.add(term.toLowerCase());
+    return [{ term, times }];
+  });
+
+  return { summary: raw.summary.trim(), chapters, keywords: keywords.slice(0, MAX_KEYWORDS) };
+}
+
+/** The chapter playing at `time`. */
+export function chapterAt(chapters: Chapter[], time: number): Chapter | null {
+  return chapters.filter(c => c.startTime <= time).pop() ?? null;
+}
+
+// --- EXPORT ---
+
+export type ChapterFormat = 'youtube' | 'vtt';
+
+export const CHAPTER_FORMATS: { format: ChapterFormat; label: string; fileSuffix: string; mimeType: string }[] = [
+  { format: 'youtube', label: 'YouTube chapters (.txt)', fileSuffix: '.chapters.txt', mimeType: 'text/plain' },
+  { format: 'vtt', label: 'WebVTT chapters (.vtt)', fileSuffix: '.chapters.vtt', mimeType: 'text/vtt' },
+];
+
+/** `4:05`, or `1:04:05` once the video passes an hour, as YouTube descriptions expect. */
+export function formatChapterTime(seconds: number, withHours: boolean): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return withHours ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** One `0:00 Title` line per chapter, ready to paste into a video description. */
+export function toYouTubeChapters(chapters: Chapter[], duration: number): string {
+  const withHours = duration >= 3600;
+  return chapters.map(c => `${formatChapterTime(c.startTime, withHours)} ${c.title.replace(/\s+/g, ' ')}`).join('\n') + '\n';
+}
+
+/** WebVTT for a `<track kind="chapters">`; each chapter ends where the next begins. */
+export function toVTTChapters(chapters: Chapter[], duration: number): string {
+  const sorted = [...chapters].sort((a, b) => a.startTime - b.startTime);
+  const cues = sorted.map((c, i) => {
+    const end = sorted[i + 1]?.startTime ?? Math.max(duration, c.startTime + MIN_CHAPTER_LENGTH);
+    return `Chapter ${i + 1}\n${formatTimestamp(c.startTime, '.')} --> ${formatTimestamp(end, '.')}\n${c.title.replace(/\s+/g, ' ')}`;
+  });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
@@ -0,0 +1,60 @@
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number; // 0 (transparent) - 1 (opaque)
+}
+
+const clampByte = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+
+/**
+ * Parses the CSS colour notations used by the customization state:
+ * `#rgb`, `#rrggbb`, `#rrggbbaa`, `rgb(...)` and `rgba(...)`.
+ * Returns null for anything else.
+ */
+export function parseCssColor(input: string): RGBA | null {
+  const value = input.trim().toLowerCase();
+
+  if (value === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3) {
+      digits = digits.split('').map(d => d + d).join('');
+    }
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const fn = value.match(/^rgba?\(([^)]+)\)$/);
+  if (fn) {
+    const parts = fn[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    const [r, g, b] = parts.slice(0, 3).map(Number);
+    let a = 1;
+    if (parts[3] !== undefined) {
+      a = parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : Number(parts[3]);
+    }
+    if ([r, g, b, a].some(n => Number.isNaN(n))) return null;
+    return { r: clampByte(r), g: clampByte(g), b: clampByte(b), a: Math.max(0, Math.min(1, a)) };
+  }
+
+  return null;
+}
+
+/** Formats a colour as `#rrggbb`, dropping alpha (what `<input type="color">` expects). */
+export function toHexColor({ r, g, b }: RGBA): string {
+  return '#' + [r, g, b].map(n => clampByte(n).toString(16).padStart(2, '0')).join('');
+}
+
+/** Formats a colour as a CSS `rgba(...)` string. */
+export function toRgbaString({ r, g, b, a }: RGBA): string {
+  return `rgba(${clampByte(r)}, ${clampByte(g)}, ${clampByte(b)}, ${Math.round(a * 100) / 100})`;
+}
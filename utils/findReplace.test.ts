@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { Subtitle } from '../types';
+import { buildSearchPattern, findMatches, replaceMatches, SearchOptions, withText } from './findReplace';
+
+const options = (query: string, overrides: Partial<SearchOptions> = {}): SearchOptions =>
+  ({ query, regex: false, caseSensitive: false, wholeWord: false, ...overrides });
+const pattern = (query: string, overrides?: Partial<SearchOptions>) => buildSearchPattern(options(query, overrides))!;
+
+const subtitles: Subtitle[] = [
+  { id: 1, text: 'The cat sat.', startTime: 0, endTime: 1 },
+  { id: 2, text: 'A category of Cats', startTime: 1, endTime: 2 },
+];
+
+describe('buildSearchPattern', () => {
+  it('returns null for an empty query', () => {
+    expect(buildSearchPattern(options(''))).toBeNull();
+  });
+
+  it('escapes the query unless it is a regex', () => {
+    expect(findMatches([{ ...subtitles[0], text: 'a.b axb' }], pattern('a.b'))).toHaveLength(1);
+    expect(findMatches([{ ...subtitles[0], text: 'a.b axb' }], pattern('a.b', { regex: true }))).toHaveLength(2);
+  });
+
+  it('throws on an invalid regex', () => {
+    expect(() => buildSearchPattern(options('(', { regex: true }))).toThrow();
+  });
+});
+
+describe('findMatches', () => {
+  it('ignores case unless asked not to', () => {
+    expect(findMatches(subtitles, pattern('cat'))).toHaveLength(3);
+    expect(findMatches(subtitles, pattern('cat', { caseSensitive: true }))).toHaveLength(2);
+  });
+
+  it('matches whole words with Unicode-aware boundaries', () => {
+    expect(findMatches(subtitles, pattern('cat', { wholeWord: true }))).toEqual([{ subtitleId: 1, index: 4, length: 3 }]);
+    expect(findMatches([{ ...subtitles[0], text: 'café cafés' }], pattern('café', { wholeWord: true }))).toHaveLength(1);
+  });
+
+  it('skips zero-length matches', () => {
+    expect(findMatches(subtitles, pattern('^', { regex: true }))).toEqual([]);
+  });
+});
+
+describe('replaceMatches', () => {
+  it('replaces every match and counts them', () => {
+    const result = replaceMatches(subtitles, pattern('cat'), 'dog', false);
+    expect(result.count).toBe(3);
+    expect(result.subtitles.map(s => s.text)).toEqual(['The dog sat.', 'A dogegory of dogs']);
+  });
+
+  it('replaces only the chosen match', () => {
+    const [, second] = findMatches(subtitles, pattern('cat'));
+    const result = replaceMatches(subtitles, pattern('cat'), 'dog', false, second);
+    expect(result.subtitles.map(s => s.text)).toEqual(['The cat sat.', 'A dogegory of Cats']);
+    expect(result.subtitles[0]).toBe(subtitles[0]);
+  });
+
+  it('expands group references only in regex mode', () => {
+    const re = pattern('(\\w+) (\\w+)', { regex: true });
+    expect(replaceMatches([subtitles[0]], re, '$2 $1', true).subtitles[0].text).toBe('cat The sat.');
+    expect(replaceMatches([subtitles[0]], pattern('cat'), '$&$&', false).subtitles[0].text).toBe('The $&$& sat.');
+  });
+
+  it('returns the same list when nothing matches', () => {
+    expect(replaceMatches(subtitles, pattern('dog'), 'cat', false)).toEqual({ subtitles, count: 0 });
+  });
+});
+
+describe('withText', () => {
+  const sub: Subtitle = { id: 1, text: 'one two', startTime: 0, endTime: 2, words: [
+    { text: 'one', startTime: 0, endTime: 1 },
+    { text: 'two', startTime: 1, endTime: 2 },
+  ] };
+
+  it('keeps word timings while the word count survives', () => {
+    expect(withText(sub, 'uno dos').words).toEqual([
+      { text: 'uno', startTime: 0, endTime: 1 },
+      { text: 'dos', startTime: 1, endTime: 2 },
+    ]);
+  });
+
+  it('drops word timings once the word count changes', () => {
+    expect(withText(sub, 'one two three').words).toBeUndefined();
+  });
+});
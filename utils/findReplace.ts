@@ -0,0 +1,94 @@
+import type { Subtitle } from '../types';
+import { wordTokens } from './wordTiming';
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  subtitleId: number;
+  /** Character offset of the match in the cue's text. */
+  index: number;
+  length: number;
+}
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The global pattern for `options`, or null for an empty query. Throws with the
+ * browser's message if `query` isn't a valid regular expression.
+ */
+export function buildSearchPattern({ query, regex, caseSensitive, wholeWord }: SearchOptions): RegExp | null {
+  if (!query) return null;
+  let source = regex ? query : escapeRegExp(query);
+  // Unicode-aware word boundaries, so "café" isn't split at the accent.
+  if (wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, `gu${caseSensitive ? '' : 'i'}`);
+}
+
+export function findMatches(subtitles: Subtitle[], pattern: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  for (const sub of subtitles) {
+    for (const match of sub.text.matchAll(pattern)) {
+      // Zero-length matches (e.g. /^/) can't be shown or replaced meaningfully.
+      if (match[0].length > 0) matches.push({ subtitleId: sub.id, index: match.index!, length: match[0].length });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Replaces text in a cue, keeping its word timings when the word count survives
+ * (only the words' text changes then).
+ */
+export function withText(sub: Subtitle, text: string): Subtitle {
+  if (text === sub.text) return sub;
+  const tokens = wordTokens(text);
+  const words = sub.words && sub.words.length === tokens.length
+    ? sub.words.map((w, i) => ({ ...w, text: tokens[i] }))
+    : undefined;
+  return { ...sub, text, words };
+}
+
+export interface ReplaceResult {
+  subtitles: Subtitle[];
+  /** Number of matches replaced. */
+  count: number;
+}
+
+/** `String.replace`-style substitutions: `$&`, `$1`…`$99`, `$<name>` and `$$`. */
+function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const group = Number(ref);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+}
+
+/**
+ * Replaces every match of `pattern`, or only the one at `only`. With `expand`,
+ * `$1`, `$&` and friends in `replacement` refer to the match as in `String.replace`;
+ * otherwise it's inserted literally.
+ */
+export function replaceMatches(subtitles: Subtitle[], pattern: RegExp, replacement: string, expand: boolean, only?: SearchMatch): ReplaceResult {
+  let count = 0;
+  const result = subtitles.map(sub => {
+    if (only && sub.id !== only.subtitleId) return sub;
+    let text = '';
+    let cursor = 0;
+    for (const match of sub.text.matchAll(pattern)) {
+      const index = match.index!;
+      if (match[0].length === 0 || (only && index !== only.index)) continue;
+      text += sub.text.slice(cursor, index) + (expand ? expandReplacement(replacement, match) : replacement);
+      cursor = index + match[0].length;
+      count++;
+    }
+    return cursor === 0 ? sub : withText(sub, text + sub.text.slice(cursor));
+  });
+  return { subtitles: count > 0 ? result : subtitles, count };
+}
@@ -0,0 +1,44 @@
+import type { Subtitle, GlossaryEntry } from '../types';
+import { buildSearchPattern, withText } from './findReplace';
+
+export function createGlossaryEntry(term: string, variants: string[] = []): GlossaryEntry {
+  return { id: crypto.randomUUID(), term, variants };
+}
+
+/** "Jemini, gemeni" → ['Jemini', 'gemeni']. */
+export const parseVariants = (text: string) => text.split(',').map(v => v.trim()).filter(Boolean);
+
+export interface GlossaryResult {
+  subtitles: Subtitle[];
+  /** Words actually respelled; uses that were already right don't count. */
+  count: number;
+}
+
+/**
+ * Rewrites each entry's variants, and any differently-cased use of the term itself,
+ * to the preferred spelling. Matching is whole-word and case-insensitive.
+ */
+export function applyGlossary(subtitles: Subtitle[], glossary: GlossaryEntry[]): GlossaryResult {
+  const rules = glossary
+    .filter(entry => entry.term.trim())
+    .flatMap(({ term, variants }) => [...variants, term].map(variant => ({
+      term: term.trim(),
+      pattern: buildSearchPattern({ query: variant, regex: false, caseSensitive: false, wholeWord: true }),
+    })));
+  if (rules.length === 0) return { subtitles, count: 0 };
+
+  let count = 0;
+  const result = subtitles.map(sub => {
+    let text = sub.text;
+    for (const { term, pattern } of rules) {
+      if (!pattern) continue;
+      text = text.replace(pattern, match => {
+        if (match === term) return match;
+        count++;
+        return term;
+      });
+    }
+    return withText(sub, text);
+  });
+  return { subtitles: count > 0 ? result : subtitles, count };
+}
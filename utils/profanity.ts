@@ -0,0 +1,49 @@
+import type { Subtitle, ProfanityMask } from '../types';
+import { escapeRegExp } from './findReplace';
+
+/** A deliberately short list of the words most viewers would expect masked. Projects add their own. */
+const BUILT_IN_PROFANITY = [
+  'arse', 'arsehole', 'asshole', 'bastard', 'bitch', 'bollocks', 'bullshit', 'cock', 'crap',
+  'cunt', 'damn', 'dick', 'fuck', 'fucker', 'fucking', 'motherfucker', 'piss', 'prick',
+  'shit', 'shitty', 'slut', 'twat', 'wanker', 'whore',
+];
+
+export const BLEEP_TOKEN = '[bleep]';
+
+let cachedPattern: { key: string; pattern: RegExp } | null = null;
+
+/** Matches the listed words as whole words, with common endings ("shits", "damned"). */
+function buildProfanityPattern(extraWords: string[]): RegExp {
+  const key = extraWords.join('\n');
+  if (cachedPattern?.key === key) return cachedPattern.pattern;
+  const words = [...new Set([...BUILT_IN_PROFANITY, ...extraWords.map(w => w.trim().toLowerCase()).filter(Boolean)])]
+    // Longest first, so "fucking" wins over "fuck".
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${words.join('|')})(?:s|es|ed|er|ers|ing)?(?![\\p{L}\\p{N}_])`, 'giu');
+  cachedPattern = { key, pattern };
+  return pattern;
+}
+
+/** `f***` keeps the first letter so the word is still recognisable as masked speech. */
+const asterisks = (word: string) => word[0] + '*'.repeat(word.length - 1);
+
+export function maskProfanity(text: string, mask: ProfanityMask, extraWords: string[] = []): string {
+  if (mask === 'off') return text;
+  return text.replace(buildProfanityPattern(extraWords), word => mask === 'bleep' ? BLEEP_TOKEN : asterisks(word));
+}
+
+/**
+ * The cue as shown and exported; the stored text stays untouched. Masking swaps one
+ * word for another, so word timings keep lining up.
+ */
+export function maskSubtitle(sub: Subtitle, mask: ProfanityMask, extraWords: string[] = []): Subtitle {
+  if (mask === 'off') return sub;
+  const text = maskProfanity(sub.text, mask, extraWords);
+  if (text === sub.text) return sub;
+  return {
+    ...sub,
+    text,
+    words: sub.words?.map(w => ({ ...w, text: maskProfanity(w.text, mask, extraWords) })),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_CUSTOMIZATION_STATE } from '../constants';
+import { parseProjectFile } from './projectFile';
+
+const file = (project: Record<string, unknown>) => JSON.stringify({
+  format: 'subtitle-project',
+  version: 2,
+  project: { video: { fileName: 'clip.mp4', hash: 'abc' }, tracks: [], ...project },
+});
+
+const track = (subtitles: unknown[]) => ({ id: 't1', name: 'English', language: 'en', subtitles });
+
+describe('parseProjectFile', () => {
+  it('keeps well-formed cue words, styles and speakers', () => {
+    const cue = {
+      id: 1, text: 'hi there', startTime: 0, endTime: 1, speakerId: 's1',
+      words: [{ text: 'hi', startTime: 0, endTime: 0.5 }, { text: 'there', startTime: 0.5, endTime: 1 }],
+      style: { color: '#FF0000', textAlign: 'left' },
+    };
+    const project = parseProjectFile(file({ tracks: [track([cue])] }));
+    expect(project.tracks[0].subtitles[0]).toEqual(cue);
+  });
+
+  it('drops malformed optional cue fields instead of keeping them', () => {
+    const project = parseProjectFile(file({
+      tracks: [track([
+        { id: 1, text: 'a', startTime: 0, endTime: 1, words: 'a', style: { fontSize: '20px', textAlign: 'middle', italic: true }, speakerId: 3 },
+        { id: 2, text: 'b', startTime: 1, endTime: 2, words: [{ text: 'b', startTime: 1 }], style: [] },
+      ])],
+    }));
+    expect(project.tracks[0].subtitles).toEqual([
+      { id: 1, text: 'a', startTime: 0, endTime: 1, style: { italic: true } },
+      { id: 2, text: 'b', startTime: 1, endTime: 2 },
+    ]);
+  });
+
+  it('falls back to the default for malformed customization fields', () => {
+    const project = parseProjectFile(file({
+      customization: { profanityWords: 'x', profanityMask: 'bleep', position: { x: 'left' }, fontSize: 40 },
+    }));
+    expect(project.customization).toEqual({
+      ...INITIAL_CUSTOMIZATION_STATE,
+      profanityMask: 'bleep',
+      fontSize: 40,
+    });
+  });
+
+  it('keeps a well-formed analysis and drops a malformed one', () => {
+    const analysis = { trackId: 't1', createdAt: 5, summary: 'S', chapters: [{ startTime: 0, title: 'Intro' }], keywords: [{ term: 'k', times: [1, 2] }] };
+    expect(parseProjectFile(file({ analysis })).analysis).toEqual(analysis);
+    expect(parseProjectFile(file({ analysis: { ...analysis, chapters: [{ startTime: 'soon', title: 'Intro' }] } })).analysis).toBeNull();
+  });
+
+  it('rejects glossary entries with non-string variants', () => {
+    expect(() => parseProjectFile(file({ glossary: [{ id: 'g', term: 'Kubernetes', variants: [1] }] })))
+      .toThrow('Glossary entry 1 in the project file is malformed.');
+  });
+});
@@ -0,0 +1,163 @@
+import type { Chapter, CustomizationState, GlossaryEntry, KeywordEntry, Project, Speaker, Subtitle, SubtitleTrack, SubtitleWord, TranscriptAnalysis } from '../types';
+import { INITIAL_CUSTOMIZATION_STATE } from '../constants';
+import { normalizeTracks } from './tracks';
+import { createSubtitleId } from './subtitles';
+
+const PROJECT_FILE_FORMAT = 'subtitle-project';
+/** v2 replaced the single `subtitles` list with `tracks`; v1 files are still read. */
+const PROJECT_FILE_VERSION = 2;
+
+/**
+ * A project as a single JSON file for handing off. The video itself isn't embedded;
+ * the recipient re-links their copy, checked against `video.hash`.
+ */
+export function serializeProject(project: Project): string {
+  const { id: _id, ...rest } = project;
+  return JSON.stringify({ format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, project: rest }, null, 2);
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** The analysis if it is well-formed; it can be regenerated, so a malformed one is dropped rather than rejected. */
+function parseAnalysis(value: unknown): TranscriptAnalysis | null {
+  if (!isRecord(value) || typeof value.trackId !== 'string' || typeof value.summary !== 'string'
+    || !Array.isArray(value.chapters) || !Array.isArray(value.keywords)) return null;
+  const chapters: Chapter[] = [];
+  for (const c of value.chapters) {
+    if (!isRecord(c) || !isNumber(c.startTime) || typeof c.title !== 'string') return null;
+    chapters.push({ startTime: c.startTime, title: c.title });
+  }
+  const keywords: KeywordEntry[] = [];
+  for (const k of value.keywords) {
+    if (!isRecord(k) || typeof k.term !== 'string' || !Array.isArray(k.times) || !k.times.every(isNumber)) return null;
+    keywords.push({ term: k.term, times: k.times });
+  }
+  return {
+    trackId: value.trackId,
+    createdAt: isNumber(value.createdAt) ? value.createdAt : Date.now(),
+    summary: value.summary,
+    chapters,
+    keywords,
+  };
+}
+
+/** Allowed values of the customization fields that are string unions. */
+const STYLE_CHOICES: Partial<Record<keyof CustomizationState, string[]>> = {
+  textAlign: ['left', 'center', 'right'],
+  speakerDisplay: ['off', 'name', 'color', 'both'],
+  profanityMask: ['off', 'asterisks', 'bleep'],
+};
+
+/** The fields of `value` that have the same shape as their defaults; anything else is dropped. */
+function parseStyle(value: unknown): Partial<CustomizationState> {
+  const style: Partial<CustomizationState> = {};
+  if (!isRecord(value)) return style;
+  for (const key of Object.keys(INITIAL_CUSTOMIZATION_STATE) as (keyof CustomizationState)[]) {
+    const field = value[key];
+    const fallback = INITIAL_CUSTOMIZATION_STATE[key];
+    let valid: boolean;
+    if (key === 'position') valid = isRecord(field) && isNumber(field.x) && isNumber(field.y);
+    else if (Array.isArray(fallback)) valid = Array.isArray(field) && field.every(item => typeof item === 'string');
+    else if (typeof fallback === 'number') valid = isNumber(field);
+    else valid = typeof field === typeof fallback && (STYLE_CHOICES[key]?.includes(field as string) ?? true);
+    if (valid) Object.assign(style, { [key]: field } as Partial<CustomizationState>);
+  }
+  return style;
+}
+
+/** Word timings if every entry is well-formed, else none; the cue falls back to untimed. */
+function parseWords(value: unknown): SubtitleWord[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const words: SubtitleWord[] = [];
+  for (const w of value) {
+    if (!isRecord(w) || typeof w.text !== 'string' || !isNumber(w.startTime) || !isNumber(w.endTime)) return undefined;
+    words.push({ text: w.text, startTime: w.startTime, endTime: w.endTime });
+  }
+  return words;
+}
+
+/** Throws with a readable message if the file isn't a project export. */
+export function parseProjectFile(content: string): Omit<Project, 'id'> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("Project file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PROJECT_FILE_FORMAT || !isRecord(data.project)) {
+    throw new Error("Not a subtitle project file.");
+  }
+  if (isNumber(data.version) && data.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${data.version} is newer than this app supports.`);
+  }
+
+  const project = data.project;
+  const video = project.video;
+  if (!isRecord(video) || typeof video.fileName !== 'string' || typeof video.hash !== 'string') {
+    throw new Error("Project file is missing its video details.");
+  }
+  if (!Array.isArray(project.tracks) && !Array.isArray(project.subtitles)) {
+    throw new Error("Project file has no subtitle list.");
+  }
+  const rawTracks: unknown[] = normalizeTracks({
+    tracks: Array.isArray(project.tracks) ? project.tracks : undefined,
+    subtitles: Array.isArray(project.subtitles) ? project.subtitles : undefined,
+  });
+  // Cue ids must be unique across the project; files edited by hand or by other tools may not be.
+  const seenIds = new Set<number>();
+  const tracks: SubtitleTrack[] = rawTracks.map((track, t) => {
+    if (!isRecord(track) || typeof track.id !== 'string' || !Array.isArray(track.subtitles)) {
+      throw new Error(`Track ${t + 1} in the project file is malformed.`);
+    }
+    const name = typeof track.name === 'string' && track.name ? track.name : 'Untitled';
+    const subtitles = track.subtitles.map((sub: unknown, i: number): Subtitle => {
+      if (!isRecord(sub) || typeof sub.text !== 'string' || !isNumber(sub.startTime) || !isNumber(sub.endTime)) {
+        throw new Error(`Subtitle ${i + 1} of track "${name}" in the project file is malformed.`);
+      }
+      const id = isNumber(sub.id) && !seenIds.has(sub.id) ? sub.id : createSubtitleId();
+      seenIds.add(id);
+      // Optional fields are dropped when malformed rather than failing the whole file.
+      const subtitle: Subtitle = { id, text: sub.text, startTime: sub.startTime, endTime: sub.endTime };
+      const words = parseWords(sub.words);
+      if (words) subtitle.words = words;
+      const style = parseStyle(sub.style);
+      if (Object.keys(style).length > 0) subtitle.style = style;
+      if (typeof sub.speakerId === 'string') subtitle.speakerId = sub.speakerId;
+      return subtitle;
+    });
+    return {
+      id: track.id,
+      name,
+      language: typeof track.language === 'string' && track.language ? track.language : 'und',
+      subtitles,
+    };
+  });
+
+  const speakers: Speaker[] = (Array.isArray(project.speakers) ? project.speakers : []).map((speaker: unknown, i: number) => {
+    if (!isRecord(speaker) || typeof speaker.id !== 'string' || typeof speaker.name !== 'string' || typeof speaker.color !== 'string') {
+      throw new Error(`Speaker ${i + 1} in the project file is malformed.`);
+    }
+    return { id: speaker.id, name: speaker.name, color: speaker.color };
+  });
+  const glossary: GlossaryEntry[] = (Array.isArray(project.glossary) ? project.glossary : []).map((entry: unknown, i: number) => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.term !== 'string'
+      || !Array.isArray(entry.variants) || !entry.variants.every(v => typeof v === 'string')) {
+      throw new Error(`Glossary entry ${i + 1} in the project file is malformed.`);
+    }
+    return { id: entry.id, term: entry.term, variants: entry.variants };
+  });
+
+  const now = Date.now();
+  return {
+    name: typeof project.name === 'string' && project.name ? project.name : video.fileName,
+    createdAt: isNumber(project.createdAt) ? project.createdAt : now,
+    updatedAt: now,
+    video: { fileName: video.fileName, type: String(video.type ?? ''), size: Number(video.size ?? 0), hash: video.hash },
+    tracks,
+    speakers,
+    glossary,
+    customization: { ...INITIAL_CUSTOMIZATION_STATE, ...parseStyle(project.customization) },
+    analysis: parseAnalysis(project.analysis),
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Subtitle } from '../types';
+import { autoFixSubtitles, breakLines, findSplitPosition, NETFLIX_PROFILE, validateSubtitle, validateSubtitles } from './readability';
+
+const cue = (id: number, text: string, startTime: number, endTime: number): Subtitle => ({ id, text, startTime, endTime });
+const rules = (sub: Subtitle, next?: Subtitle) => validateSubtitle(sub, next, NETFLIX_PROFILE).map(issue => issue.rule);
+
+describe('validateSubtitle', () => {
+  it('passes a short, well-timed cue', () => {
+    expect(rules(cue(1, 'Hello there.', 0, 2))).toEqual([]);
+  });
+
+  it('flags long lines, too many lines and fast reading', () => {
+    const text = ['a'.repeat(43), 'b', 'c'].join('\n');
+    expect(rules(cue(1, text, 0, 1))).toEqual(['line-length', 'line-count', 'cps']);
+  });
+
+  it('flags durations outside the limits', () => {
+    expect(rules(cue(1, 'Hi', 0, 0.5))).toEqual(['min-duration']);
+    expect(rules(cue(1, 'Hi', 0, 8))).toEqual(['max-duration']);
+  });
+
+  it('flags a gap that is too short or an overlap', () => {
+    expect(rules(cue(1, 'Hi', 0, 2), cue(2, 'Yes', 2.01, 4))).toEqual(['gap']);
+    expect(validateSubtitle(cue(1, 'Hi', 0, 2), cue(2, 'Yes', 1.5, 4), NETFLIX_PROFILE)[0].message).toMatch(/^Overlaps/);
+  });
+
+  it('accepts a gap of exactly the minimum', () => {
+    expect(rules(cue(1, 'Hi', 0, 2), cue(2, 'Yes', 2 + NETFLIX_PROFILE.minGap, 4))).toEqual([]);
+  });
+});
+
+describe('validateSubtitles', () => {
+  it('checks gaps in time order and leaves passing cues out', () => {
+    const issues = validateSubtitles([cue(2, 'Yes', 2.01, 4), cue(1, 'Hi', 0, 2)], NETFLIX_PROFILE);
+    expect([...issues.keys()]).toEqual([1]);
+  });
+});
+
+describe('breakLines', () => {
+  it('leaves short text on one line', () => {
+    expect(breakLines('  short   text ', 42)).toBe('short text');
+  });
+
+  it('balances the lines instead of filling the first', () => {
+    expect(breakLines('one two three four five six', 20)).toBe('one two three\nfour five six');
+  });
+
+  it('keeps an over-long word whole', () => {
+    expect(breakLines('supercalifragilistic', 5)).toBe('supercalifragilistic');
+  });
+});
+
+describe('findSplitPosition', () => {
+  it('prefers a sentence break near the middle', () => {
+    const text = 'First sentence here. Second one, with a clause.';
+    expect(text[findSplitPosition(text)]).toBe(' ');
+    expect(text.slice(0, findSplitPosition(text))).toBe('First sentence here.');
+  });
+
+  it('falls back to the space nearest the middle', () => {
+    expect(findSplitPosition('aa bb cc')).toBe(5);
+  });
+
+  it('returns -1 without a space', () => {
+    expect(findSplitPosition('word')).toBe(-1);
+  });
+});
+
+describe('autoFixSubtitles', () => {
+  it('returns the input untouched when nothing needs fixing', () => {
+    const subtitles = [cue(1, 'Hello there.', 0, 2)];
+    expect(autoFixSubtitles(subtitles, NETFLIX_PROFILE)).toEqual({ subtitles, changed: 0 });
+  });
+
+  it('stretches a short cue into free time without crossing the next one', () => {
+    const { subtitles, changed } = autoFixSubtitles([cue(1, 'Hi', 0, 0.3), cue(2, 'Yes', 0.6, 2)], NETFLIX_PROFILE);
+    expect(changed).toBe(1);
+    expect(subtitles[0].endTime).toBeCloseTo(0.6 - NETFLIX_PROFILE.minGap);
+    expect(subtitles[1]).toEqual(cue(2, 'Yes', 0.6, 2));
+  });
+
+  it('splits a cue with more text than two lines hold', () => {
+    const text = 'This is the first sentence of a long cue. And this second sentence makes it far too long to show.';
+    const { subtitles } = autoFixSubtitles([cue(1, text, 0, 7)], NETFLIX_PROFILE);
+    expect(subtitles.length).toBe(2);
+    expect(validateSubtitles(subtitles, NETFLIX_PROFILE).size).toBe(0);
+  });
+});
@@ -0,0 +1,214 @@
+import type { Subtitle, ReadabilityProfile } from '../types';
+import { sortByStartTime, splitSubtitle } from './subtitles';
+import { clampWords } from './wordTiming';
+
+/** Close to Netflix's timed-text guidelines for adult programmes at 24 fps. */
+export const NETFLIX_PROFILE: ReadabilityProfile = {
+  id: 'netflix',
+  name: 'Netflix-like',
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 20,
+  minDuration: 5 / 6,
+  maxDuration: 7,
+  minGap: 2 / 24,
+};
+
+export const BUILT_IN_PROFILES: ReadabilityProfile[] = [
+  NETFLIX_PROFILE,
+  {
+    id: 'broadcast',
+    name: 'Broadcast (relaxed pace)',
+    maxCharsPerLine: 37,
+    maxLines: 2,
+    maxCharsPerSecond: 15,
+    minDuration: 1,
+    maxDuration: 6,
+    minGap: 0.1,
+  },
+];
+
+export type ReadabilityRule = 'line-length' | 'line-count' | 'cps' | 'min-duration' | 'max-duration' | 'gap';
+
+export interface ReadabilityIssue {
+  rule: ReadabilityRule;
+  message: string;
+}
+
+const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+/** Characters the viewer reads: line breaks don't count, spaces do. */
+const readableLength = (text: string) => lines(text).join(' ').length;
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+/** Slack for float timings, so a gap fixed to exactly the minimum passes. */
+const EPSILON = 1e-3;
+
+// --- VALIDATION ---
+
+/** `next` is the following cue in time, for the gap rule. */
+export function validateSubtitle(sub: Subtitle, next: Subtitle | undefined, profile: ReadabilityProfile): ReadabilityIssue[] {
+  const issues: ReadabilityIssue[] = [];
+  const textLines = lines(sub.text);
+  const duration = sub.endTime - sub.startTime;
+
+  const longest = Math.max(0, ...textLines.map(l => l.length));
+  if (longest > profile.maxCharsPerLine) {
+    issues.push({ rule: 'line-length', message: `A line has ${longest} characters; the limit is ${profile.maxCharsPerLine}.` });
+  }
+  if (textLines.length > profile.maxLines) {
+    issues.push({ rule: 'line-count', message: `${textLines.length} lines; the limit is ${profile.maxLines}.` });
+  }
+  if (duration > 0) {
+    const cps = readableLength(sub.text) / duration;
+    if (cps > profile.maxCharsPerSecond + EPSILON) {
+      issues.push({ rule: 'cps', message: `Reading speed is ${cps.toFixed(1)} characters/s; the limit is ${profile.maxCharsPerSecond}.` });
+    }
+  }
+  if (duration < profile.minDuration - EPSILON) {
+    issues.push({ rule: 'min-duration', message: `On screen for ${duration.toFixed(2)}s; the minimum is ${profile.minDuration.toFixed(2)}s.` });
+  }
+  if (duration > profile.maxDuration + EPSILON) {
+    issues.push({ rule: 'max-duration', message: `On screen for ${duration.toFixed(2)}s; the maximum is ${profile.maxDuration.toFixed(2)}s.` });
+  }
+  if (next) {
+    const gap = next.startTime - sub.endTime;
+    if (gap < profile.minGap - EPSILON) {
+      issues.push({
+        rule: 'gap',
+        message: gap < 0
+          ? `Overlaps the next cue by ${(-gap).toFixed(2)}s.`
+          : `Only ${gap.toFixed(2)}s before the next cue; the minimum gap is ${profile.minGap.toFixed(2)}s.`,
+      });
+    }
+  }
+  return issues;
+}
+
+/** Issues keyed by cue id; cues that pass every rule are left out. */
+export function validateSubtitles(subtitles: Subtitle[], profile: ReadabilityProfile): Map<number, ReadabilityIssue[]> {
+  const sorted = sortByStartTime(subtitles);
+  const result = new Map<number, ReadabilityIssue[]>();
+  sorted.forEach((sub, i) => {
+    const issues = validateSubtitle(sub, sorted[i + 1], profile);
+    if (issues.length > 0) result.set(sub.id, issues);
+  });
+  return result;
+}
+
+// --- AUTO-FIX ---
+
+/**
+ * Breaks text into as few lines as `maxCharsPerLine` allows, balancing their lengths
+ * rather than filling the first line greedily. A single over-long word stays whole.
+ */
+export function breakLines(text: string, maxCharsPerLine: number): string {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  const joined = words.join(' ');
+  if (joined.length <= maxCharsPerLine) return joined;
+
+  const fill = (width: number) => {
+    const result: string[] = [];
+    let line = '';
+    for (const word of words) {
+      if (line && line.length + 1 + word.length > width) {
+        result.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    if (line) result.push(line);
+    return result;
+  };
+
+  // The narrowest width that needs no more lines than the limit does gives the most even split.
+  const lineCount = fill(maxCharsPerLine).length;
+  for (let width = Math.ceil(joined.length / lineCount); width < maxCharsPerLine; width++) {
+    const candidate = fill(width);
+    if (candidate.length <= lineCount) return candidate.join('\n');
+  }
+  return fill(maxCharsPerLine).join('\n');
+}
+
+const SENTENCE_BREAK = /[.!?…]["')\]]?\s/g;
+const CLAUSE_BREAK = /[,;:–—]\s/g;
+
+/**
+ * Where to split an over-long cue: after sentence punctuation if any lies in the middle
+ * 60%, else after a clause break, else the space nearest the middle. -1 if there's no space.
+ */
+export function findSplitPosition(text: string): number {
+  const middle = text.length / 2;
+  const nearestMiddle = (positions: number[]) =>
+    positions.reduce((best, p) => Math.abs(p - middle) < Math.abs(best - middle) ? p : best, positions[0]);
+  const inMiddle = (p: number) => p >= text.length * 0.2 && p <= text.length * 0.8;
+
+  for (const pattern of [SENTENCE_BREAK, CLAUSE_BREAK]) {
+    const positions = [...text.matchAll(pattern)].map(m => m.index! + m[0].length - 1).filter(inMiddle);
+    if (positions.length > 0) return nearestMiddle(positions);
+  }
+  const spaces = [...text.matchAll(/\s/g)].map(m => m.index!);
+  return spaces.length > 0 ? nearestMiddle(spaces) : -1;
+}
+
+function splitUntilReadable(sub: Subtitle, profile: ReadabilityProfile): Subtitle[] {
+  const text = normalizeText(sub.text);
+  const tooLong = text.length > profile.maxCharsPerLine * profile.maxLines;
+  // More text than can be read at the maximum speed within the maximum duration.
+  const tooDense = text.length / profile.maxCharsPerSecond > profile.maxDuration;
+  if (!tooLong && !tooDense) return [sub];
+  const position = findSplitPosition(text);
+  if (position < 0) return [sub];
+  const halves = splitSubtitle([{ ...sub, text }], sub.id, position);
+  if (halves.length < 2) return [sub];
+  return halves.flatMap(half => splitUntilReadable(half, profile));
+}
+
+export interface AutoFixResult {
+  subtitles: Subtitle[];
+  /** Cues whose text or timing changed, counting each piece of a split cue. */
+  changed: number;
+}
+
+/**
+ * Rewrites cues to satisfy `profile` where possible: splits cues with more text than the
+ * line or time limits allow at punctuation, re-breaks lines, then stretches short
+ * cues into the free time around them and trims long or crowding ones. Times never
+ * cross a neighbour, so some cues may still fail validation afterwards.
+ */
+export function autoFixSubtitles(subtitles: Subtitle[], profile: ReadabilityProfile): AutoFixResult {
+  const original = new Map(subtitles.map(s => [s.id, s]));
+  const fixed = sortByStartTime(subtitles)
+    .flatMap(sub => splitUntilReadable(sub, profile))
+    .map(sub => ({ ...sub, text: breakLines(sub.text, profile.maxCharsPerLine) }));
+
+  for (let i = 0; i < fixed.length; i++) {
+    const sub = fixed[i];
+    const prev = fixed[i - 1];
+    const next = fixed[i + 1];
+    const earliestStart = prev ? prev.endTime + profile.minGap : 0;
+    const latestEnd = next ? next.startTime - profile.minGap : Infinity;
+
+    const needed = Math.min(profile.maxDuration, Math.max(profile.minDuration, readableLength(sub.text) / profile.maxCharsPerSecond));
+    let { startTime, endTime } = sub;
+    if (endTime - startTime > profile.maxDuration) {
+      endTime = startTime + profile.maxDuration;
+    }
+    if (endTime - startTime < needed) {
+      endTime = Math.max(endTime, Math.min(startTime + needed, latestEnd));
+    }
+    if (endTime - startTime < needed) {
+      startTime = Math.min(startTime, Math.max(endTime - needed, earliestStart));
+    }
+    // Make room for the gap, unless that would leave the cue shorter than the minimum.
+    if (endTime > latestEnd && latestEnd - startTime >= profile.minDuration) {
+      endTime = latestEnd;
+    }
+    fixed[i] = { ...sub, startTime, endTime, words: sub.words && clampWords(sub.words, startTime, endTime) };
+  }
+
+  const changed = fixed.filter(sub => {
+    const before = original.get(sub.id);
+    return !before || before.text !== sub.text || before.startTime !== sub.startTime || before.endTime !== sub.endTime;
+  }).length;
+  return { subtitles: changed > 0 ? fixed : subtitles, changed };
+}
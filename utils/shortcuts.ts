@@ -0,0 +1,106 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'frameBack'
+  | 'frameForward'
+  | 'secondBack'
+  | 'secondForward'
+  | 'previousCue'
+  | 'nextCue'
+  | 'setCueStart'
+  | 'setCueEnd'
+  | 'loopCue'
+  | 'focusCueText'
+  | 'showShortcuts';
+
+/** A key combination such as `Space`, `Shift+ArrowLeft` or `Ctrl+K`. */
+export type Keymap = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string; defaultKey: string }[] = [
+  { action: 'playPause', label: 'Play / pause', defaultKey: 'Space' },
+  { action: 'frameBack', label: 'Back one frame', defaultKey: ',' },
+  { action: 'frameForward', label: 'Forward one frame', defaultKey: '.' },
+  { action: 'secondBack', label: 'Back one second', defaultKey: 'ArrowLeft' },
+  { action: 'secondForward', label: 'Forward one second', defaultKey: 'ArrowRight' },
+  { action: 'previousCue', label: 'Previous cue', defaultKey: 'ArrowUp' },
+  { action: 'nextCue', label: 'Next cue', defaultKey: 'ArrowDown' },
+  { action: 'setCueStart', label: 'Set cue start to playhead', defaultKey: '[' },
+  { action: 'setCueEnd', label: 'Set cue end to playhead', defaultKey: ']' },
+  { action: 'loopCue', label: 'Loop the current cue', defaultKey: 'L' },
+  { action: 'focusCueText', label: 'Edit the current cue\'s text', defaultKey: 'Enter' },
+  { action: 'showShortcuts', label: 'Show shortcuts', defaultKey: '?' },
+];
+
+export const DEFAULT_KEYMAP = Object.fromEntries(SHORTCUT_ACTIONS.map(s => [s.action, s.defaultKey])) as Keymap;
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock']);
+
+/**
+ * The combo for a key press, or null for a lone modifier. Letters and digits come from
+ * `code`, since Alt changes the character typed on macOS. Shift is left out for other
+ * printable keys because it's already part of the character (`?` rather than `Shift+/`).
+ */
+export function keyComboFromEvent(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const letterOrDigit = /^(?:Key([A-Z])|Digit(\d))$/.exec(e.code);
+  let key: string;
+  if (letterOrDigit) key = letterOrDigit[1] ?? letterOrDigit[2];
+  else if (e.key === ' ') key = 'Space';
+  else key = e.key;
+  const shiftIsPartOfKey = key.length === 1 && !letterOrDigit;
+  return [
+    e.ctrlKey && 'Ctrl',
+    e.altKey && 'Alt',
+    e.shiftKey && !shiftIsPartOfKey && 'Shift',
+    e.metaKey && 'Meta',
+    key,
+  ].filter(Boolean).join('+');
+}
+
+/** Combos with Ctrl, Alt or Meta still work while typing in a text field. */
+export const hasCommandModifier = (combo: string) => /(?:^|\+)(?:Ctrl|Alt|Meta)\+/.test(combo);
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+export const formatKeyCombo = (combo: string) =>
+  combo.split('+').map(part => KEY_LABELS[part] ?? part).join(' + ');
+
+export function actionForCombo(keymap: Keymap, combo: string): ShortcutAction | null {
+  return SHORTCUT_ACTIONS.find(s => keymap[s.action] === combo)?.action ?? null;
+}
+
+/** Binds `action` to `combo`, unbinding any other action that used it. */
+export function rebind(keymap: Keymap, action: ShortcutAction, combo: string): Keymap {
+  const next = { ...keymap };
+  for (const { action: other } of SHORTCUT_ACTIONS) {
+    if (other !== action && next[other] === combo) next[other] = '';
+  }
+  next[action] = combo;
+  return next;
+}
+
+/**
+ * Whether the focused element needs `combo` itself: text fields, selects and sliders take
+ * every plain key, and buttons and links keep Enter. Space is left to the shortcut, so a
+ * button that was just clicked doesn't swallow play/pause.
+ */
+export function focusOwnsKey(target: EventTarget | null, combo: string): boolean {
+  if (!(target instanceof HTMLElement) || hasCommandModifier(combo)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'color', 'file'].includes(target.type)) return true;
+  return combo === 'Enter' && target.matches('button, a[href], input, summary');
+}
+
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset', 'color', 'file', 'range'];
+
+/** Whether `target` is a form field that takes typing or a choice: text inputs, textareas, selects and editable content. */
+export function isEditableField(target: EventTarget | null): target is HTMLElement {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type);
+}
@@ -0,0 +1,117 @@
+export interface AudioChunk {
+  /** Sample offsets into the source buffer, end exclusive. */
+  start: number;
+  end: number;
+}
+
+export interface SilenceSplitOptions {
+  /** Analysis window length in seconds. */
+  frameDuration: number;
+  /** Pauses at least this long end a chunk. */
+  minSilence: number;
+  /** Speech shorter than this is treated as noise and dropped. */
+  minSpeech: number;
+  /** Chunks longer than this are force-split at their quietest frame. */
+  maxChunk: number;
+  /** Audio kept either side of the detected speech, in seconds. */
+  padding: number;
+  /** RMS level below which a frame never counts as speech. */
+  minThreshold: number;
+}
+
+export const DEFAULT_SILENCE_SPLIT_OPTIONS: SilenceSplitOptions = {
+  frameDuration: 0.02,
+  minSilence: 0.35,
+  minSpeech: 0.25,
+  maxChunk: 8,
+  padding: 0.1,
+  minThreshold: 0.01,
+};
+
+function frameEnergies(samples: Float32Array, frameLength: number): Float32Array {
+  const count = Math.ceil(samples.length / frameLength);
+  const energies = new Float32Array(count);
+  for (let f = 0; f < count; f++) {
+    const start = f * frameLength;
+    const end = Math.min(samples.length, start + frameLength);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    energies[f] = Math.sqrt(sum / Math.max(1, end - start));
+  }
+  return energies;
+}
+
+/**
+ * Splits mono PCM into speech chunks at silence boundaries. The speech threshold
+ * adapts to the recording's noise floor (a multiple of its quieter frames) so that
+ * music beds or room tone don't make everything one chunk.
+ */
+export function splitOnSilence(
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<SilenceSplitOptions> = {},
+): AudioChunk[] {
+  const opts = { ...DEFAULT_SILENCE_SPLIT_OPTIONS, ...options };
+  const frameLength = Math.max(1, Math.round(opts.frameDuration * sampleRate));
+  const energies = frameEnergies(samples, frameLength);
+  if (energies.length === 0) return [];
+
+  const sorted = Array.from(energies).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const threshold = Math.max(opts.minThreshold, noiseFloor * 3);
+
+  const minSilenceFrames = Math.ceil(opts.minSilence / opts.frameDuration);
+  const minSpeechFrames = Math.ceil(opts.minSpeech / opts.frameDuration);
+  const maxChunkFrames = Math.max(1, Math.floor(opts.maxChunk / opts.frameDuration));
+
+  // 1. Speech regions in frames, bridging pauses shorter than minSilence.
+  const regions: { start: number; end: number }[] = [];
+  let regionStart = -1;
+  let silentRun = 0;
+  for (let f = 0; f < energies.length; f++) {
+    if (energies[f] >= threshold) {
+      if (regionStart < 0) regionStart = f;
+      silentRun = 0;
+    } else if (regionStart >= 0) {
+      silentRun++;
+      if (silentRun >= minSilenceFrames) {
+        regions.push({ start: regionStart, end: f - silentRun + 1 });
+        regionStart = -1;
+        silentRun = 0;
+      }
+    }
+  }
+  if (regionStart >= 0) regions.push({ start: regionStart, end: energies.length - silentRun });
+
+  // 2. Drop blips, then force-split long regions at the quietest frame in their second half.
+  const chunks: { start: number; end: number }[] = [];
+  for (const region of regions.filter(r => r.end - r.start >= minSpeechFrames)) {
+    let start = region.start;
+    while (region.end - start > maxChunkFrames) {
+      let cut = start + maxChunkFrames;
+      let quietest = Infinity;
+      for (let f = start + Math.floor(maxChunkFrames / 2); f < start + maxChunkFrames; f++) {
+        if (energies[f] < quietest) {
+          quietest = energies[f];
+          cut = f;
+        }
+      }
+      chunks.push({ start, end: cut });
+      start = cut;
+    }
+    chunks.push({ start, end: region.end });
+  }
+
+  // 3. Convert to sample offsets, padding without overlapping the neighbouring chunk.
+  const pad = Math.round(opts.padding * sampleRate);
+  const result: AudioChunk[] = [];
+  chunks.forEach((c, i) => {
+    const prevEnd = result.length ? result[result.length - 1].end : 0;
+    const nextStart = i + 1 < chunks.length ? chunks[i + 1].start * frameLength : samples.length;
+    result.push({
+      start: Math.max(prevEnd, c.start * frameLength - pad),
+      end: Math.min(nextStart, samples.length, c.end * frameLength + pad),
+    });
+  });
+  return result;
+}
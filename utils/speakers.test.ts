@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Speaker, Subtitle } from '../types';
+import { SPEAKER_COLORS } from '../constants';
+import { assignSpeakers, labelSubtitle, pruneSpeakerIds } from './speakers';
+
+const ana: Speaker = { id: 'ana', name: 'Ana', color: '#FF0000' };
+const ben: Speaker = { id: 'ben', name: 'Ben', color: '#00FF00' };
+const cue = (id: number, text: string, speakerId?: string): Subtitle => ({ id, text, startTime: id, endTime: id + 1, speakerId });
+
+describe('labelSubtitle', () => {
+  const timed: Subtitle = {
+    ...cue(1, 'Hi there', 'ana'),
+    words: [{ text: 'Hi', startTime: 1, endTime: 1.4 }, { text: 'there', startTime: 1.4, endTime: 2 }],
+  };
+
+  it('leaves the cue alone when off or without a known speaker', () => {
+    expect(labelSubtitle(timed, [ana], 'off')).toBe(timed);
+    expect(labelSubtitle(cue(1, 'Hi', 'nobody'), [ana], 'both').text).toBe('Hi');
+  });
+
+  it('prefixes the name and pads the word timings to match', () => {
+    const labelled = labelSubtitle(timed, [ana], 'name');
+    expect(labelled.text).toBe('ANA: Hi there');
+    expect(labelled.words?.map(w => w.text)).toEqual(['ANA:', 'Hi', 'there']);
+    expect(labelled.words?.[0]).toEqual({ text: 'ANA:', startTime: 1, endTime: 1 });
+    expect(labelled.style).toBeUndefined();
+  });
+
+  it("colours the cue unless it has a colour of its own", () => {
+    expect(labelSubtitle(timed, [ana], 'color')).toEqual({ ...timed, style: { color: '#FF0000' } });
+    const styled = { ...timed, style: { color: '#123456' } };
+    expect(labelSubtitle(styled, [ana], 'both').style).toEqual({ color: '#123456' });
+  });
+});
+
+describe('assignSpeakers', () => {
+  it('reuses roster entries by name, ignoring case, and adds new speakers', () => {
+    const { subtitles, speakers } = assignSpeakers([cue(1, 'a'), cue(2, 'b'), cue(3, 'c')], ['ana', ' Cleo ', 'cleo'], [ana, ben]);
+    expect(speakers.slice(0, 2)).toEqual([ana, ben]);
+    expect(speakers).toHaveLength(3);
+    const cleo = speakers[2];
+    expect(cleo.name).toBe('Cleo');
+    expect(cleo.color).toBe(SPEAKER_COLORS.find(c => c !== ana.color && c !== ben.color));
+    expect(subtitles.map(s => s.speakerId)).toEqual(['ana', cleo.id, cleo.id]);
+  });
+
+  it('clears on an empty label and keeps the cue on a missing one', () => {
+    const original = [cue(1, 'a', 'ana'), cue(2, 'b', 'ben')];
+    const { subtitles, speakers } = assignSpeakers(original, ['', undefined], [ana, ben]);
+    expect(subtitles[0].speakerId).toBeUndefined();
+    expect(subtitles[1]).toBe(original[1]);
+    expect(speakers).toEqual([ana, ben]);
+  });
+});
+
+describe('pruneSpeakerIds', () => {
+  it('drops assignments to removed speakers', () => {
+    const result = pruneSpeakerIds([cue(1, 'a', 'ana'), cue(2, 'b', 'ben')], [ben]);
+    expect(result[0]).not.toHaveProperty('speakerId');
+    expect(result[1].speakerId).toBe('ben');
+  });
+
+  it('returns the same list when nothing changes', () => {
+    const subtitles = [cue(1, 'a', 'ana'), cue(2, 'b')];
+    expect(pruneSpeakerIds(subtitles, [ana])).toBe(subtitles);
+  });
+});
@@ -0,0 +1,83 @@
+import type { Subtitle, Speaker, SpeakerDisplay } from '../types';
+import { SPEAKER_COLORS } from '../constants';
+import { hasWordTimings, wordTokens } from './wordTiming';
+
+export function createSpeaker(name: string, color: string): Speaker {
+  return { id: crypto.randomUUID(), name, color };
+}
+
+/** The first palette colour nobody in the roster uses yet, cycling once all are taken. */
+export function nextSpeakerColor(speakers: Speaker[]): string {
+  const used = new Set(speakers.map(s => s.color.toUpperCase()));
+  return SPEAKER_COLORS.find(c => !used.has(c)) ?? SPEAKER_COLORS[speakers.length % SPEAKER_COLORS.length];
+}
+
+export const findSpeaker = (speakers: Speaker[], id: string | undefined) =>
+  id === undefined ? undefined : speakers.find(s => s.id === id);
+
+/**
+ * The cue as it should be shown: with `NAME: ` in front of its text and/or the speaker's
+ * colour, depending on `display`. A colour set on the cue itself still wins. Word timings
+ * gain zero-length entries for the name so karaoke keeps lining up.
+ */
+export function labelSubtitle(sub: Subtitle, speakers: Speaker[], display: SpeakerDisplay): Subtitle {
+  const speaker = findSpeaker(speakers, sub.speakerId);
+  if (!speaker || display === 'off') return sub;
+  let labelled = sub;
+  if ((display === 'name' || display === 'both') && speaker.name.trim()) {
+    const prefix = `${speaker.name.trim().toUpperCase()}:`;
+    labelled = {
+      ...labelled,
+      text: `${prefix} ${sub.text}`,
+      words: hasWordTimings(sub)
+        ? [...wordTokens(prefix).map(text => ({ text, startTime: sub.startTime, endTime: sub.startTime })), ...sub.words]
+        : sub.words,
+    };
+  }
+  if ((display === 'color' || display === 'both') && sub.style?.color === undefined) {
+    labelled = { ...labelled, style: { ...labelled.style, color: speaker.color } };
+  }
+  return labelled;
+}
+
+export const labelSubtitles = (subtitles: Subtitle[], speakers: Speaker[], display: SpeakerDisplay) =>
+  subtitles.map(sub => labelSubtitle(sub, speakers, display));
+
+/**
+ * Applies one diarization label per cue, reusing roster entries whose name matches
+ * (case-insensitively) and adding the rest with fresh colours. An empty label clears
+ * the cue's speaker; `undefined` leaves it as it is.
+ */
+export function assignSpeakers(subtitles: Subtitle[], labels: (string | undefined)[], roster: Speaker[]): { subtitles: Subtitle[]; speakers: Speaker[] } {
+  const speakers = [...roster];
+  const idFor = (label: string) => {
+    const name = label.trim();
+    if (!name) return undefined;
+    let speaker = speakers.find(s => s.name.toLowerCase() === name.toLowerCase());
+    if (!speaker) {
+      speaker = createSpeaker(name, nextSpeakerColor(speakers));
+      speakers.push(speaker);
+    }
+    return speaker.id;
+  };
+  return {
+    subtitles: subtitles.map((sub, i) => {
+      const speakerId = labels[i] === undefined ? sub.speakerId : idFor(labels[i]);
+      return speakerId === sub.speakerId ? sub : { ...sub, speakerId };
+    }),
+    speakers,
+  };
+}
+
+/** Clears assignments to speakers that are no longer in the roster. */
+export function pruneSpeakerIds(subtitles: Subtitle[], speakers: Speaker[]): Subtitle[] {
+  const ids = new Set(speakers.map(s => s.id));
+  let changed = false;
+  const result = subtitles.map(sub => {
+    if (sub.speakerId === undefined || ids.has(sub.speakerId)) return sub;
+    changed = true;
+    const { speakerId: _removed, ...rest } = sub;
+    return rest;
+  });
+  return changed ? result : subtitles;
+}
@@ -0,0 +1,33 @@
+import type { Subtitle, CustomizationState, StyleOverrides } from '../types';
+
+/** The style a cue is actually drawn with: its overrides on top of the global customization. */
+export function resolveSubtitleStyle(customization: CustomizationState, subtitle: Subtitle | null | undefined): CustomizationState {
+  if (!subtitle?.style) return customization;
+  const resolved = { ...customization };
+  for (const [key, value] of Object.entries(subtitle.style)) {
+    if (value !== undefined) Object.assign(resolved, { [key]: value } as Partial<CustomizationState>);
+  }
+  return resolved;
+}
+
+export function hasStyleOverrides(subtitle: Subtitle): boolean {
+  return !!subtitle.style && Object.values(subtitle.style).some(v => v !== undefined);
+}
+
+/** Sets or (with `undefined`) clears one override, dropping `style` entirely once it's empty. */
+export function setStyleOverride<K extends keyof CustomizationState>(
+  subtitle: Subtitle,
+  key: K,
+  value: CustomizationState[K] | undefined,
+): Subtitle {
+  const style: StyleOverrides = { ...subtitle.style };
+  if (value === undefined) delete style[key];
+  else style[key] = value;
+  const { style: _previous, ...rest } = subtitle;
+  return Object.keys(style).length > 0 ? { ...rest, style } : rest;
+}
+
+export function clearStyleOverrides(subtitle: Subtitle): Subtitle {
+  const { style: _previous, ...rest } = subtitle;
+  return rest;
+}
@@ -0,0 +1,70 @@
+import type { CustomizationState, PresetStyle, StylePreset } from '../types';
+import { INITIAL_CUSTOMIZATION_STATE } from '../constants';
+
+/** Splits the look of a customization from its position and content settings. */
+export function presetStyleOf(customization: CustomizationState): PresetStyle {
+  const { position: _position, speakerDisplay: _speakerDisplay, profanityMask: _profanityMask, profanityWords: _profanityWords, ...style } = customization;
+  return style;
+}
+
+const DEFAULT_STYLE = presetStyleOf(INITIAL_CUSTOMIZATION_STATE);
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  { id: 'default', name: 'Default', style: DEFAULT_STYLE },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    style: {
+      ...DEFAULT_STYLE,
+      fontSize: 24,
+      fontFamily: 'Arial',
+      lineHeight: 1.3,
+      maxWidth: 80,
+      backgroundColor: 'rgba(8, 8, 8, 0.75)',
+      backgroundPadding: 0.3,
+      shadowBlur: 0,
+      shadowOffset: 0,
+    },
+  },
+  {
+    id: 'netflix',
+    name: 'Netflix',
+    style: {
+      ...DEFAULT_STYLE,
+      fontSize: 28,
+      fontFamily: 'Helvetica',
+      maxWidth: 80,
+      backgroundColor: 'rgba(0, 0, 0, 0)',
+      outlineWidth: 1,
+      outlineColor: '#000000',
+      shadowColor: 'rgba(0, 0, 0, 0.8)',
+      shadowOffset: 2,
+      shadowBlur: 3,
+    },
+  },
+  {
+    id: 'karaoke',
+    name: 'Karaoke',
+    style: {
+      ...DEFAULT_STYLE,
+      fontSize: 32,
+      fontFamily: 'Verdana',
+      bold: true,
+      backgroundColor: 'rgba(0, 0, 0, 0)',
+      outlineWidth: 2,
+      outlineColor: '#000000',
+      shadowOffset: 0,
+      shadowBlur: 0,
+      karaoke: true,
+      highlightColor: '#FFD700',
+    },
+  },
+];
+
+export const isBuiltInPreset = (preset: StylePreset) => BUILT_IN_PRESETS.some(p => p.id === preset.id);
+
+/** The preset the customization currently looks exactly like, if any. */
+export function matchingPreset(customization: CustomizationState, presets: StylePreset[]): StylePreset | undefined {
+  const current = presetStyleOf(customization);
+  return presets.find(p => (Object.keys(current) as (keyof PresetStyle)[]).every(key => p.style[key] === current[key]));
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Subtitle } from '../types';
+import { INITIAL_CUSTOMIZATION_STATE } from '../constants';
+import { toASS, toVTT } from './subtitleFormats';
+
+const karaokeCue: Subtitle = {
+  id: 1,
+  text: 'Hello big\nworld',
+  startTime: 1,
+  endTime: 3,
+  words: [
+    { text: 'Hello', startTime: 1.2, endTime: 1.6 },
+    { text: 'big', startTime: 1.6, endTime: 2 },
+    { text: 'world', startTime: 2.25, endTime: 2.9 },
+  ],
+};
+
+const dialogueLines = (ass: string) => ass.split('\n').filter(line => line.startsWith('Dialogue:'));
+const styleLine = (ass: string, name = 'Default') => ass.split('\n').find(line => line.startsWith(`Style: ${name},`))!;
+const assOptions = { width: 1920, height: 1080, referenceHeight: 1080 };
+
+describe('toASS karaoke', () => {
+  it('times each word with \\k up to the next one, after a lead-in', () => {
+    const ass = toASS([karaokeCue], { ...INITIAL_CUSTOMIZATION_STATE, karaoke: true }, assOptions);
+    expect(dialogueLines(ass)).toEqual([
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Karaoke,,0,0,0,,{\\k20}{\\k40}Hello {\\k65}big\\N{\\k75}world',
+    ]);
+  });
+
+  it('sweeps from the text colour to the highlight colour', () => {
+    const customization = { ...INITIAL_CUSTOMIZATION_STATE, karaoke: true, color: '#ffffff', highlightColor: '#ff0000' };
+    const fields = styleLine(toASS([karaokeCue], customization, assOptions), 'Karaoke').split(',');
+    // PrimaryColour (sung) is the highlight, SecondaryColour (unsung) the text colour.
+    expect(fields[3]).toBe('&H000000FF');
+    expect(fields[4]).toBe('&H00FFFFFF');
+  });
+
+  it('keeps cues without word timings in the text colour on a mixed track', () => {
+    const customization = { ...INITIAL_CUSTOMIZATION_STATE, karaoke: true, color: '#ffffff', highlightColor: '#ff0000' };
+    const plain: Subtitle = { id: 2, text: 'No timings', startTime: 4, endTime: 5 };
+    const ass = toASS([karaokeCue, plain], customization, assOptions);
+    expect(styleLine(ass).split(',').slice(3, 5)).toEqual(['&H00FFFFFF', '&H00FFFFFF']);
+    expect(dialogueLines(ass).map(line => line.split(',')[3])).toEqual(['Karaoke', 'Default']);
+    expect(dialogueLines(ass)[1]).toMatch(/,,No timings$/);
+  });
+
+  it('adds no Karaoke style when no cue has word timings', () => {
+    const plain: Subtitle = { id: 2, text: 'No timings', startTime: 4, endTime: 5 };
+    expect(styleLine(toASS([plain], { ...INITIAL_CUSTOMIZATION_STATE, karaoke: true }, assOptions), 'Karaoke')).toBeUndefined();
+  });
+
+  it('writes plain text for cues whose words no longer match', () => {
+    const edited = { ...karaokeCue, text: 'Hello world' };
+    expect(dialogueLines(toASS([edited], INITIAL_CUSTOMIZATION_STATE, assOptions))[0]).toMatch(/,,Hello world$/);
+  });
+
+  it('keeps font names from breaking the style line or override tags', () => {
+    const customization = { ...INITIAL_CUSTOMIZATION_STATE, fontFamily: 'My, {Font}' };
+    const cue = { ...karaokeCue, words: undefined, style: { fontFamily: 'Other\\Font' } };
+    const ass = toASS([cue], customization, assOptions);
+    expect(styleLine(ass).split(',')[1]).toBe('My Font');
+    expect(dialogueLines(ass)[0]).toContain('{\\fnOther Font}');
+  });
+});
+
+describe('toVTT karaoke', () => {
+  it('adds an inline timestamp before every word but the first', () => {
+    expect(toVTT([karaokeCue])).toBe([
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:03.000',
+      'Hello <00:00:01.600>big',
+      '<00:00:02.250>world',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,461 @@
+import type { Subtitle, SubtitleWord, CustomizationState } from '../types';
+import { parseCssColor, RGBA } from './color';
+import { createSubtitleId, sortByStartTime } from './subtitles';
+import { resolveSubtitleStyle } from './style';
+import { hasWordTimings, splitWordsAndSpaces } from './wordTiming';
+import { hasShadow, VERTICAL_PADDING_RATIO } from './typography';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_FORMATS: { format: SubtitleFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'ass', label: 'Advanced SubStation (.ass)', extension: 'ass', mimeType: 'text/x-ssa' },
+];
+
+// --- TIMESTAMPS ---
+
+function splitTime(seconds: number) {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3_600_000),
+    minutes: Math.floor(totalMs / 60_000) % 60,
+    seconds: Math.floor(totalMs / 1000) % 60,
+    milliseconds: totalMs % 1000,
+  };
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+/** `HH:MM:SS,mmm` (SRT) or `HH:MM:SS.mmm` (WebVTT). */
+export function formatTimestamp(seconds: number, separator: ',' | '.' = ','): string {
+  const t = splitTime(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}${separator}${pad(t.milliseconds, 3)}`;
+}
+
+/** `H:MM:SS.cc` — ASS only has centisecond precision. */
+export function formatAssTimestamp(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360_000);
+  const minutes = Math.floor(totalCs / 6000) % 60;
+  const secs = Math.floor(totalCs / 100) % 60;
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(totalCs % 100)}`;
+}
+
+// --- SRT / WEBVTT ---
+
+// A blank line terminates the cue in both formats, so collapse them.
+const cueText = (text: string) => text.trim().replace(/\r?\n(\s*\r?\n)+/g, '\n');
+
+const escapeVttText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toSRT(subtitles: Subtitle[]): string {
+  return sortByStartTime(subtitles)
+    .map((sub, i) => `${i + 1}\n${formatTimestamp(sub.startTime, ',')} --> ${formatTimestamp(sub.endTime, ',')}\n${cueText(sub.text)}\n`)
+    .join('\n');
+}
+
+/** Cue text with a `<HH:MM:SS.mmm>` timestamp before every word after the first. */
+function vttKaraokeText(sub: Subtitle & { words: SubtitleWord[] }): string {
+  return splitWordsAndSpaces(cueText(sub.text)).map(({ text, wordIndex }) => {
+    if (wordIndex === null) return text;
+    if (wordIndex === 0) return escapeVttText(text);
+    // Inline timestamps must fall strictly inside the cue.
+    const time = Math.min(sub.endTime - 0.001, Math.max(sub.startTime + 0.001, sub.words[wordIndex].startTime));
+    return `<${formatTimestamp(time, '.')}>${escapeVttText(text)}`;
+  }).join('');
+}
+
+export function toVTT(subtitles: Subtitle[]): string {
+  const cues = sortByStartTime(subtitles).map(sub => {
+    const text = hasWordTimings(sub) ? vttKaraokeText(sub) : escapeVttText(cueText(sub.text));
+    return `${formatTimestamp(sub.startTime, '.')} --> ${formatTimestamp(sub.endTime, '.')}\n${text}\n`;
+  });
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+// --- ASS ---
+
+export interface AssOptions {
+  /** Script resolution; usually the video's native size. */
+  width: number;
+  height: number;
+  /**
+   * Height in px of the player the customization was authored against.
+   * Font sizes are in on-screen px, so they're scaled by `height / referenceHeight`.
+   */
+  referenceHeight: number;
+}
+
+const assHex = (n: number) => n.toString(16).toUpperCase().padStart(2, '0');
+
+/** `&HAABBGGRR`, where AA is transparency (00 = opaque). */
+function toAssColor(color: string, fallback: RGBA): string {
+  const { r, g, b, a } = parseCssColor(color) ?? fallback;
+  return '&H' + [Math.round((1 - a) * 255), b, g, r].map(assHex).join('');
+}
+
+/** Override-tag form: colour `&HBBGGRR&` and alpha `&HAA&` are separate tags. */
+function toAssTagColor(color: string, fallback: RGBA): { color: string; alpha: string } {
+  const { r, g, b, a } = parseCssColor(color) ?? fallback;
+  return { color: `&H${[b, g, r].map(assHex).join('')}&`, alpha: `&H${assHex(Math.round((1 - a) * 255))}&` };
+}
+
+/**
+ * Maps the overlay's percentage `position` (horizontal centre, top edge of the caption box)
+ * to a numpad alignment plus margins in script pixels.
+ */
+export function positionToAssLayout(position: { x: number; y: number }, fontSize: number, width: number, height: number) {
+  const x = (position.x / 100) * width;
+  const y = (position.y / 100) * height;
+
+  // Centred text is centred between MarginL and width - MarginR.
+  const marginL = Math.round(Math.max(0, 2 * x - width));
+  const marginR = Math.round(Math.max(0, width - 2 * x));
+
+  if (position.y <= 50) {
+    return { alignment: 8, marginL, marginR, marginV: Math.round(y) };
+  }
+  // Bottom-anchored: approximate the box height as one line plus the 0.2em padding.
+  const boxHeight = fontSize * 1.4;
+  return { alignment: 2, marginL, marginR, marginV: Math.round(Math.max(0, height - y - boxHeight)) };
+}
+
+/** Commas split `Style:` fields, and braces and backslashes delimit override tags, so none can appear in a font name. */
+const assFontName = (family: string) => family.replace(/[,{}\\]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Inline tags for a cue's per-cue overrides. Position is emitted as an exact `\pos`
+ * anchored top-centre, which is how the overlay places captions.
+ */
+function assOverrideTags(sub: Subtitle, resolved: CustomizationState, fontScale: number, width: number, height: number): string {
+  // In karaoke the text colour is SecondaryColour until each word is reached.
+  const colorTag = resolved.karaoke && hasWordTimings(sub) ? '2' : '1';
+  const style = sub.style;
+  if (!style) return '';
+  const tags: string[] = [];
+  if (style.fontFamily !== undefined) tags.push(`\\fn${assFontName(resolved.fontFamily)}`);
+  if (style.fontSize !== undefined) tags.push(`\\fs${Math.round(resolved.fontSize * fontScale)}`);
+  if (style.bold !== undefined) tags.push(`\\b${resolved.bold ? 1 : 0}`);
+  if (style.italic !== undefined) tags.push(`\\i${resolved.italic ? 1 : 0}`);
+  if (style.color !== undefined) {
+    const { color, alpha } = toAssTagColor(resolved.color, { r: 255, g: 255, b: 255, a: 1 });
+    tags.push(`\\${colorTag}c${color}`, `\\${colorTag}a${alpha}`);
+  }
+  if (style.backgroundColor !== undefined) {
+    // The box is drawn in the outline colour under BorderStyle 3.
+    const { color, alpha } = toAssTagColor(resolved.backgroundColor, { r: 0, g: 0, b: 0, a: 0.5 });
+    tags.push(`\\3c${color}`, `\\3a${alpha}`, `\\4c${color}`, `\\4a${alpha}`);
+  }
+  if (style.position !== undefined) {
+    const x = Math.round((resolved.position.x / 100) * width);
+    const y = Math.round((resolved.position.y / 100) * height);
+    tags.push('\\an8', `\\pos(${x},${y})`);
+  }
+  return tags.length ? `{${tags.join('')}}` : '';
+}
+
+const escapeAssText = (text: string) =>
+  text.trim().replace(/\{/g, '\\{').replace(/\}/g, '\\}').replace(/\r?\n/g, '\\N');
+
+/**
+ * `{\kNN}` before each word, NN in centiseconds up to the next word, so renderers
+ * sweep from SecondaryColour to PrimaryColour as each word is reached. Times are
+ * rounded absolutely first so the durations don't drift.
+ */
+function assKaraokeText(sub: Subtitle & { words: SubtitleWord[] }): string {
+  const cs = (t: number) => Math.round(Math.min(sub.endTime, Math.max(sub.startTime, t)) * 100);
+  const starts = sub.words.map(w => cs(w.startTime));
+  const end = cs(sub.endTime);
+  const lead = starts[0] - cs(sub.startTime);
+  let result = lead > 0 ? `{\\k${lead}}` : '';
+  for (const { text, wordIndex } of splitWordsAndSpaces(sub.text.trim())) {
+    if (wordIndex === null) {
+      result += /\n/.test(text) ? '\\N' : ' ';
+      continue;
+    }
+    const next = wordIndex + 1 < starts.length ? starts[wordIndex + 1] : end;
+    result += `{\\k${Math.max(0, next - starts[wordIndex])}}${escapeAssText(text)}`;
+  }
+  return result;
+}
+
+export function toASS(subtitles: Subtitle[], customization: CustomizationState, options: AssOptions): string {
+  const { width, height, referenceHeight } = options;
+  const fontScale = height / (referenceHeight || height);
+  const fontSize = Math.round(customization.fontSize * fontScale);
+  const layout = positionToAssLayout(customization.position, fontSize, width, height);
+
+  const primary = toAssColor(customization.color, { r: 255, g: 255, b: 255, a: 1 });
+  const highlight = toAssColor(customization.highlightColor, { r: 255, g: 215, b: 0, a: 1 });
+  const back = toAssColor(customization.backgroundColor, { r: 0, g: 0, b: 0, a: 0.5 });
+  const hasBox = (parseCssColor(customization.backgroundColor)?.a ?? 0) > 0;
+  // BorderStyle 3 draws an opaque box in OutlineColour, so a box and a letter outline
+  // can't both be exported; the box wins. BorderStyle 1 is an outline + drop shadow.
+  const borderStyle = hasBox ? 3 : 1;
+  const outlineColor = hasBox ? back : toAssColor(customization.outlineColor, { r: 0, g: 0, b: 0, a: 1 });
+  const outline = hasBox
+    ? Math.max(1, Math.round(fontSize * customization.backgroundPadding * VERTICAL_PADDING_RATIO))
+    : Math.round(customization.outlineWidth * fontScale * 10) / 10;
+  const shadow = hasShadow(customization) ? Math.round(customization.shadowOffset * fontScale * 10) / 10 : 0;
+  // Without a box, BackColour is the shadow's colour.
+  const backColour = hasBox ? back : toAssColor(customization.shadowColor, { r: 0, g: 0, b: 0, a: 1 });
+  // Line spacing, max width and left/right alignment inside the box have no ASS
+  // equivalent, so players lay those out their own way.
+  const bold = customization.bold ? -1 : 0;
+  const italic = customization.italic ? -1 : 0;
+
+  const styleLine = (name: string, primaryColour: string, secondaryColour: string) =>
+    `Style: ${name},${assFontName(customization.fontFamily)},${fontSize},${primaryColour},${secondaryColour},${outlineColor},${backColour},${bold},${italic},0,0,100,100,0,0,${borderStyle},${outline},${shadow},${layout.alignment},${layout.marginL},${layout.marginR},${layout.marginV},1`;
+
+  // Only cues with word timings get `\k` tags, so only they use the Karaoke style, which
+  // sweeps from Secondary (unsung) to Primary (sung); the rest keep the plain colour.
+  let usesKaraoke = false;
+  const events = sortByStartTime(subtitles).map(sub => {
+    const resolved = resolveSubtitleStyle(customization, sub);
+    const karaoke = resolved.karaoke && hasWordTimings(sub);
+    usesKaraoke ||= karaoke;
+    const tags = assOverrideTags(sub, resolved, fontScale, width, height);
+    const text = hasWordTimings(sub) ? assKaraokeText(sub) : escapeAssText(sub.text);
+    return `Dialogue: 0,${formatAssTimestamp(sub.startTime)},${formatAssTimestamp(sub.endTime)},${karaoke ? 'Karaoke' : 'Default'},,0,0,0,,${tags}${text}`;
+  });
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${Math.round(width)}`,
+    `PlayResY: ${Math.round(height)}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    styleLine('Default', primary, primary),
+    ...(usesKaraoke ? [styleLine('Karaoke', highlight, primary)] : []),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  return [...header, ...events, ''].join('\n');
+}
+
+// --- PARSING ---
+
+export interface ParseIssue {
+  /** 1-based line number in the source file. */
+  line: number;
+  message: string;
+}
+
+export interface ParseResult {
+  format: SubtitleFormat;
+  subtitles: Subtitle[];
+  errors: ParseIssue[];
+}
+
+/** Accepts `HH:MM:SS,mmm`, `HH:MM:SS.mmm`, `MM:SS.mmm` and ASS's `H:MM:SS.cc`. */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h = '0', m, sec, frac = '0'] = match;
+  if (Number(m) > 59 || Number(sec) > 59) return null;
+  // Right-pad so `.5`, `.50` and `.500` all mean half a second.
+  const ms = Number(frac.padEnd(3, '0'));
+  return Number(h) * 3600 + Number(m) * 60 + Number(sec) + ms / 1000;
+}
+
+export function detectSubtitleFormat(content: string, fileName = ''): SubtitleFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'srt' || ext === 'vtt') return ext;
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(head) || /^Dialogue:/m.test(head)) return 'ass';
+  if (/-->/.test(head)) return 'srt';
+  return null;
+}
+
+interface Block {
+  startLine: number;
+  lines: string[];
+}
+
+/** Splits on blank lines, remembering where each block starts. */
+function splitBlocks(lines: string[], fromIndex = 0): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  for (let i = fromIndex; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { startLine: i + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(lines[i]);
+  }
+  return blocks;
+}
+
+function parseTimingLine(line: string, lineNumber: number, errors: ParseIssue[]): { startTime: number; endTime: number } | null {
+  const [rawStart, rest] = line.split('-->');
+  if (rest === undefined) {
+    errors.push({ line: lineNumber, message: `Expected a timing line ("start --> end"), got "${line.trim()}".` });
+    return null;
+  }
+  // WebVTT allows cue settings after the end time.
+  const rawEnd = rest.trim().split(/\s+/)[0] ?? '';
+  const startTime = parseTimestamp(rawStart);
+  const endTime = parseTimestamp(rawEnd);
+  if (startTime === null) {
+    errors.push({ line: lineNumber, message: `Invalid start time "${rawStart.trim()}".` });
+    return null;
+  }
+  if (endTime === null) {
+    errors.push({ line: lineNumber, message: `Invalid end time "${rawEnd}".` });
+    return null;
+  }
+  if (endTime <= startTime) {
+    errors.push({ line: lineNumber, message: `End time ${rawEnd} is not after start time ${rawStart.trim()}.` });
+    return null;
+  }
+  return { startTime, endTime };
+}
+
+const decodeVttText = (text: string) =>
+  text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+function parseSRT(lines: string[]): ParseResult {
+  const subtitles: Subtitle[] = [];
+  const errors: ParseIssue[] = [];
+
+  for (const block of splitBlocks(lines)) {
+    let idx = 0;
+    // The numeric counter is optional in practice.
+    if (/^\d+$/.test(block.lines[0].trim()) && block.lines.length > 1) idx = 1;
+    const timing = parseTimingLine(block.lines[idx], block.startLine + idx, errors);
+    if (!timing) continue;
+    const text = block.lines.slice(idx + 1).join('\n').replace(/<\/?[bius]>/gi, '').trim();
+    if (!text) {
+      errors.push({ line: block.startLine + idx, message: 'Cue has no text.' });
+      continue;
+    }
+    subtitles.push({ id: createSubtitleId(), text, ...timing });
+  }
+
+  return { format: 'srt', subtitles, errors };
+}
+
+function parseVTT(lines: string[]): ParseResult {
+  const subtitles: Subtitle[] = [];
+  const errors: ParseIssue[] = [];
+
+  if (!lines[0]?.replace(/^\uFEFF/, '').startsWith('WEBVTT')) {
+    errors.push({ line: 1, message: 'Missing "WEBVTT" header.' });
+  }
+
+  for (const block of splitBlocks(lines, 1)) {
+    const first = block.lines[0].trim();
+    if (/^(NOTE|STYLE|REGION)\b/.test(first)) continue;
+
+    // An optional cue identifier precedes the timing line.
+    const idx = first.includes('-->') ? 0 : 1;
+    if (idx >= block.lines.length) {
+      errors.push({ line: block.startLine, message: `Cue "${first}" has no timing line.` });
+      continue;
+    }
+    const timing = parseTimingLine(block.lines[idx], block.startLine + idx, errors);
+    if (!timing) continue;
+    const text = decodeVttText(block.lines.slice(idx + 1).join('\n')).trim();
+    if (!text) {
+      errors.push({ line: block.startLine + idx, message: 'Cue has no text.' });
+      continue;
+    }
+    subtitles.push({ id: createSubtitleId(), text, ...timing });
+  }
+
+  return { format: 'vtt', subtitles, errors };
+}
+
+const DEFAULT_ASS_EVENT_FORMAT = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+
+const decodeAssText = (text: string) =>
+  text
+    // Drop override blocks but keep escaped braces (what `toASS` writes for literal ones).
+    .replace(/(?<!\\)\{[^}]*\}/g, '')
+    .replace(/\\([{}])/g, '$1')
+    .replace(/\\[Nn]/g, '\n')
+    .replace(/\\h/g, ' ')
+    .trim();
+
+function parseASS(lines: string[]): ParseResult {
+  const subtitles: Subtitle[] = [];
+  const errors: ParseIssue[] = [];
+  let format = DEFAULT_ASS_EVENT_FORMAT;
+  let inEvents = false;
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    const lineNumber = i + 1;
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+
+    if (/^Format:/i.test(line)) {
+      format = line.slice(line.indexOf(':') + 1).split(',').map(f => f.trim().toLowerCase());
+      return;
+    }
+    if (!/^Dialogue:/i.test(line)) return;
+
+    // Text is always the last field and may itself contain commas.
+    const fields = line.slice(line.indexOf(':') + 1).split(',');
+    if (fields.length < format.length) {
+      errors.push({ line: lineNumber, message: `Expected ${format.length} fields, found ${fields.length}.` });
+      return;
+    }
+    const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')];
+    const field = (name: string) => values[format.indexOf(name)]?.trim() ?? '';
+
+    const startTime = parseTimestamp(field('start'));
+    const endTime = parseTimestamp(field('end'));
+    if (startTime === null || endTime === null) {
+      errors.push({ line: lineNumber, message: `Invalid time "${startTime === null ? field('start') : field('end')}".` });
+      return;
+    }
+    if (endTime <= startTime) {
+      errors.push({ line: lineNumber, message: `End time ${field('end')} is not after start time ${field('start')}.` });
+      return;
+    }
+    const text = decodeAssText(values[format.indexOf('text')] ?? '');
+    if (!text) {
+      errors.push({ line: lineNumber, message: 'Dialogue has no text.' });
+      return;
+    }
+    subtitles.push({ id: createSubtitleId(), text, startTime, endTime });
+  });
+
+  return { format: 'ass', subtitles, errors };
+}
+
+export function parseSubtitleFile(content: string, fileName = ''): ParseResult {
+  const format = detectSubtitleFormat(content, fileName);
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  switch (format) {
+    case 'srt': return parseSRT(lines);
+    case 'vtt': return parseVTT(lines);
+    case 'ass': return parseASS(lines);
+    default:
+      return { format: 'srt', subtitles: [], errors: [{ line: 1, message: 'Unrecognised subtitle format.' }] };
+  }
+}
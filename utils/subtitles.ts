@@ -0,0 +1,120 @@
+import type { Subtitle } from '../types';
+import { hasWordTimings, wordTokens } from './wordTiming';
+
+let lastSubtitleId = 0;
+
+/**
+ * Subtitle ids have always been `Date.now()`; keep that but guarantee
+ * uniqueness when many cues are created in the same millisecond (imports, splits).
+ */
+export function createSubtitleId(): number {
+  lastSubtitleId = Math.max(Date.now(), lastSubtitleId + 1);
+  return lastSubtitleId;
+}
+
+export const sortByStartTime = (subtitles: Subtitle[]) =>
+  [...subtitles].sort((a, b) => a.startTime - b.startTime);
+
+/** Length of a cue inserted by hand, in seconds. */
+export const DEFAULT_CUE_DURATION = 2;
+/** Shortest cue that dragging or setting an edge to the playhead will leave, in seconds. */
+export const MIN_CUE_DURATION = 0.2;
+/** A hand-inserted cue is never squeezed shorter than this to avoid its neighbour. */
+const MIN_INSERTED_DURATION = 0.5;
+
+/**
+ * Splits a cue's text at `position`, dividing its time in proportion to the
+ * length of each half, or at the first word of the second half when word timings
+ * are known. Returns the list unchanged if either half would be empty.
+ */
+export function splitSubtitle(subtitles: Subtitle[], id: number, position: number): Subtitle[] {
+  const target = subtitles.find(s => s.id === id);
+  if (!target) return subtitles;
+  const first = target.text.slice(0, position).trim();
+  const second = target.text.slice(position).trim();
+  if (!first || !second) return subtitles;
+
+  if (hasWordTimings(target)) {
+    const firstCount = wordTokens(first).length;
+    // A split inside a word leaves the halves' word counts out of line, so timings are dropped.
+    if (firstCount + wordTokens(second).length === target.words.length) {
+      const firstWords = target.words.slice(0, firstCount);
+      const secondWords = target.words.slice(firstCount);
+      const splitTime = secondWords[0].startTime;
+      return sortByStartTime(subtitles.flatMap(s => s.id !== id ? [s] : [
+        { ...s, text: first, endTime: splitTime, words: firstWords },
+        { ...s, id: createSubtitleId(), text: second, startTime: splitTime, words: secondWords },
+      ]));
+    }
+  }
+
+  const splitTime = target.startTime + (target.endTime - target.startTime) * (first.length / (first.length + second.length));
+  return sortByStartTime(subtitles.flatMap(s => s.id !== id ? [s] : [
+    { ...s, text: first, endTime: splitTime, words: undefined },
+    { ...s, id: createSubtitleId(), text: second, startTime: splitTime, words: undefined },
+  ]));
+}
+
+/** Joins a cue with the one that follows it in time. */
+export function mergeWithNext(subtitles: Subtitle[], id: number): Subtitle[] {
+  const sorted = sortByStartTime(subtitles);
+  const index = sorted.findIndex(s => s.id === id);
+  if (index < 0 || index === sorted.length - 1) return subtitles;
+  const current = sorted[index];
+  const next = sorted[index + 1];
+  const merged: Subtitle = {
+    ...current,
+    text: `${current.text.trim()} ${next.text.trim()}`.trim(),
+    endTime: Math.max(current.endTime, next.endTime),
+    words: hasWordTimings(current) && hasWordTimings(next) ? [...current.words, ...next.words] : undefined,
+  };
+  return sorted.filter(s => s.id !== next.id).map(s => s.id === id ? merged : s);
+}
+
+/** Adds an empty cue at `time`, shortened if needed so it ends before the next cue. */
+export function insertSubtitleAt(subtitles: Subtitle[], time: number): { subtitles: Subtitle[]; id: number } {
+  const next = sortByStartTime(subtitles).find(s => s.startTime > time);
+  let endTime = time + DEFAULT_CUE_DURATION;
+  if (next && next.startTime < endTime && next.startTime - time >= MIN_INSERTED_DURATION) {
+    endTime = next.startTime;
+  }
+  const id = createSubtitleId();
+  return { subtitles: sortByStartTime([...subtitles, { id, text: '', startTime: time, endTime }]), id };
+}
+
+export function deleteSubtitle(subtitles: Subtitle[], id: number): Subtitle[] {
+  return subtitles.filter(s => s.id !== id);
+}
+
+// --- NAVIGATION ---
+
+/** "Previous" this soon after a cue starts goes to the cue before it rather than restarting it. */
+const RESTART_GRACE = 0.5;
+
+export const cueAt = (subtitles: Subtitle[], time: number): Subtitle | null =>
+  subtitles.find(s => time >= s.startTime && time < s.endTime) ?? null;
+
+/** Like a media player's "previous track": the current cue's start, or the one before. */
+export function previousCue(subtitles: Subtitle[], time: number): Subtitle | null {
+  return sortByStartTime(subtitles).filter(s => s.startTime < time - RESTART_GRACE).pop() ?? null;
+}
+
+export function nextCue(subtitles: Subtitle[], time: number): Subtitle | null {
+  // Seeking isn't exact, so a cue starting a hair after the playhead is the current one.
+  return sortByStartTime(subtitles).find(s => s.startTime > time + 0.01) ?? null;
+}
+
+/** The last cue to have ended by `time`. */
+export function lastEndedCue(subtitles: Subtitle[], time: number): Subtitle | null {
+  return sortByStartTime(subtitles).filter(s => s.endTime <= time).pop() ?? null;
+}
+
+/**
+ * New `[start, end]` for a cue with one edge moved to `time`. The other edge gives way
+ * when needed, so the cue never drops below `MIN_CUE_DURATION`.
+ */
+export function withEdgeAt(sub: Subtitle, edge: 'start' | 'end', time: number): { startTime: number; endTime: number } {
+  return edge === 'start'
+    ? { startTime: time, endTime: Math.max(sub.endTime, time + MIN_CUE_DURATION) }
+    : { startTime: Math.max(0, Math.min(sub.startTime, time - MIN_CUE_DURATION)), endTime: time };
+}
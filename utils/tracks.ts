@@ -0,0 +1,14 @@
+import type { Subtitle, SubtitleTrack } from '../types';
+
+export function createTrack(name: string, language: string = 'und', subtitles: Subtitle[] = []): SubtitleTrack {
+  return { id: crypto.randomUUID(), name, language, subtitles };
+}
+
+/** Projects saved before tracks existed had a single `subtitles` list. */
+export function normalizeTracks(data: { tracks?: SubtitleTrack[]; subtitles?: Subtitle[] }): SubtitleTrack[] {
+  if (Array.isArray(data.tracks) && data.tracks.length > 0) return data.tracks;
+  return [createTrack('Original', 'und', Array.isArray(data.subtitles) ? data.subtitles : [])];
+}
+
+export const countCues = (tracks: SubtitleTrack[]) =>
+  tracks.reduce((total, track) => total + track.subtitles.length, 0);
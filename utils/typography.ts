@@ -0,0 +1,28 @@
+import type { CustomizationState } from '../types';
+import { parseCssColor } from './color';
+
+/** Vertical box padding as a share of `backgroundPadding`; 0.4 gives the classic 0.2em/0.5em box. */
+export const VERTICAL_PADDING_RATIO = 0.4;
+
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+
+/** Quoted, so custom font names with spaces or digits ("My Font 2") still parse. */
+export function cssFontFamily(family: string): string {
+  return GENERIC_FAMILIES.has(family) ? family : `"${family.replace(/["\\]/g, '')}"`;
+}
+
+/** The CSS/canvas `font` shorthand for a style at `size` px. */
+export function cssFont(style: CustomizationState, size: number): string {
+  return `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${size}px ${cssFontFamily(style.fontFamily)}`;
+}
+
+export function hasShadow(style: CustomizationState): boolean {
+  return (style.shadowOffset > 0 || style.shadowBlur > 0) && (parseCssColor(style.shadowColor)?.a ?? 0) > 0;
+}
+
+/** CSS `text-shadow` for the style, with lengths multiplied by `scale`. */
+export function textShadowCss(style: CustomizationState, scale = 1): string | undefined {
+  if (!hasShadow(style)) return undefined;
+  const offset = style.shadowOffset * scale;
+  return `${offset}px ${offset}px ${style.shadowBlur * scale}px ${style.shadowColor}`;
+}
@@ -0,0 +1,42 @@
+import { decodeAudioFile } from './audio';
+
+export interface Waveform {
+  /** Peak absolute amplitude (0-1) per bucket. */
+  peaks: Float32Array;
+  peaksPerSecond: number;
+}
+
+/** Plenty for the waveform display. An hour decodes to about 115 MB of samples, freed once the peaks are computed. */
+const WAVEFORM_SAMPLE_RATE = 8000;
+const PEAKS_PER_SECOND = 100;
+
+export function computePeaks(samples: Float32Array, sampleRate: number, peaksPerSecond: number = PEAKS_PER_SECOND): Waveform {
+  const bucketSize = Math.max(1, Math.floor(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / bucketSize));
+  for (let b = 0; b < peaks.length; b++) {
+    let max = 0;
+    const end = Math.min(samples.length, (b + 1) * bucketSize);
+    for (let i = b * bucketSize; i < end; i++) {
+      const v = Math.abs(samples[i]);
+      if (v > max) max = v;
+    }
+    peaks[b] = max;
+  }
+  return { peaks, peaksPerSecond: sampleRate / bucketSize };
+}
+
+export async function loadWaveform(file: Blob): Promise<Waveform> {
+  const samples = await decodeAudioFile(file, WAVEFORM_SAMPLE_RATE);
+  return computePeaks(samples, WAVEFORM_SAMPLE_RATE);
+}
+
+/** Loudest peak between two times, for drawing one pixel column. */
+export function peakBetween(waveform: Waveform, from: number, to: number): number {
+  const start = Math.max(0, Math.floor(from * waveform.peaksPerSecond));
+  const end = Math.min(waveform.peaks.length, Math.max(start + 1, Math.ceil(to * waveform.peaksPerSecond)));
+  let max = 0;
+  for (let i = start; i < end; i++) {
+    if (waveform.peaks[i] > max) max = waveform.peaks[i];
+  }
+  return max;
+}
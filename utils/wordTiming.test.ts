@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { Subtitle } from '../types';
+import { activeWordIndex, alignWords, clampWords, distributeWords, hasWordTimings, retimeWords, splitWordsAndSpaces, wordsFromChunks } from './wordTiming';
+
+describe('splitWordsAndSpaces', () => {
+  it('numbers words and keeps the whitespace between them', () => {
+    expect(splitWordsAndSpaces('one\ntwo  three')).toEqual([
+      { text: 'one', wordIndex: 0 },
+      { text: '\n', wordIndex: null },
+      { text: 'two', wordIndex: 1 },
+      { text: '  ', wordIndex: null },
+      { text: 'three', wordIndex: 2 },
+    ]);
+  });
+});
+
+describe('hasWordTimings', () => {
+  it('only trusts timings whose count matches the text', () => {
+    const words = distributeWords('a b', 0, 1);
+    expect(hasWordTimings({ id: 1, text: 'a b', startTime: 0, endTime: 1, words })).toBe(true);
+    expect(hasWordTimings({ id: 1, text: 'a b c', startTime: 0, endTime: 1, words })).toBe(false);
+    expect(hasWordTimings({ id: 1, text: 'a b', startTime: 0, endTime: 1 })).toBe(false);
+  });
+});
+
+describe('distributeWords', () => {
+  it('spreads words over the span in proportion to their length', () => {
+    const words = distributeWords('a bbb', 0, 6);
+    expect(words).toEqual([
+      { text: 'a', startTime: 0, endTime: 2 },
+      { text: 'bbb', startTime: 2, endTime: 6 },
+    ]);
+  });
+});
+
+describe('activeWordIndex', () => {
+  it('finds the word at a time, or -1 between words', () => {
+    const words = [{ text: 'a', startTime: 0, endTime: 1 }, { text: 'b', startTime: 2, endTime: 3 }];
+    expect(activeWordIndex(words, 0.5)).toBe(0);
+    expect(activeWordIndex(words, 1.5)).toBe(-1);
+    expect(activeWordIndex(words, 2)).toBe(1);
+  });
+});
+
+describe('wordsFromChunks', () => {
+  it('joins words split across chunks and times them by character', () => {
+    const words = wordsFromChunks([
+      { text: 'hel', startTime: 0, endTime: 3 },
+      { text: 'lo you', startTime: 3, endTime: 9 },
+    ]);
+    expect(words).toEqual([
+      { text: 'hello', startTime: 0, endTime: 5 },
+      { text: 'you', startTime: 6, endTime: 9 },
+    ]);
+  });
+});
+
+describe('alignWords', () => {
+  const sub: Subtitle = { id: 1, text: 'one two', startTime: 0, endTime: 1 };
+
+  it('falls back to an even spread without audio', () => {
+    expect(alignWords(sub, null)).toEqual(distributeWords(sub.text, 0, 1));
+  });
+
+  it('places words on the voiced stretches and skips the pause between them', () => {
+    // 10 buckets of 0.1s: speech at 0.1-0.3 and 0.6-0.8.
+    const peaks = new Float32Array([0, 0.5, 0.5, 0.5, 0, 0, 0.5, 0.5, 0.5, 0]);
+    const words = alignWords(sub, { peaks, peaksPerSecond: 10 });
+    expect(words[0].startTime).toBeCloseTo(0.1);
+    expect(words[0].endTime).toBeCloseTo(0.4);
+    expect(words[1].startTime).toBeCloseTo(0.6);
+    expect(words[1].endTime).toBeCloseTo(0.9);
+  });
+});
+
+describe('retimeWords and clampWords', () => {
+  const words = [{ text: 'a', startTime: 1, endTime: 2 }, { text: 'b', startTime: 2, endTime: 3 }];
+
+  it('maps word times onto a moved and stretched cue', () => {
+    expect(retimeWords(words, { start: 1, end: 3 }, { start: 10, end: 14 })).toEqual([
+      { text: 'a', startTime: 10, endTime: 12 },
+      { text: 'b', startTime: 12, endTime: 14 },
+    ]);
+  });
+
+  it('clamps word times into the cue', () => {
+    expect(clampWords(words, 1.5, 2.5)).toEqual([
+      { text: 'a', startTime: 1.5, endTime: 2 },
+      { text: 'b', startTime: 2, endTime: 2.5 },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { Subtitle, SubtitleWord } from '../types';
+import type { Waveform } from './waveform';
+
+export const wordTokens = (text: string) => text.split(/\s+/).filter(Boolean);
+
+export interface TextPiece {
+  text: string;
+  /** Index into the cue's words, or null for the whitespace between them. */
+  wordIndex: number | null;
+}
+
+/** Splits text into words and the whitespace between, so line breaks survive re-rendering. */
+export function splitWordsAndSpaces(text: string): TextPiece[] {
+  let index = 0;
+  return text.split(/(\s+)/).filter(Boolean).map(piece => ({
+    text: piece,
+    wordIndex: /^\s+$/.test(piece) ? null : index++,
+  }));
+}
+
+/** Word timings are only trusted while they still line up with the text. */
+export const hasWordTimings = (sub: Subtitle): sub is Subtitle & { words: SubtitleWord[] } =>
+  !!sub.words && sub.words.length > 0 && sub.words.length === wordTokens(sub.text).length;
+
+/** Index of the word being spoken at `time`, or -1 between words. */
+export function activeWordIndex(words: SubtitleWord[], time: number): number {
+  return words.findIndex(w => time >= w.startTime && time < w.endTime);
+}
+
+// --- TIMING SOURCES ---
+
+export interface TimedChunk {
+  text: string;
+  /** The span the chunk's speech is assumed to cover. */
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Words from incrementally transcribed chunks (e.g. Gemini's `inputTranscription`),
+ * spreading each chunk's characters evenly over its span. Chunks may split words;
+ * a word's time runs from its first character to its last.
+ */
+export function wordsFromChunks(chunks: TimedChunk[]): SubtitleWord[] {
+  const charTimes: { start: number; end: number }[] = [];
+  let text = '';
+  for (const chunk of chunks) {
+    const span = chunk.endTime - chunk.startTime;
+    for (let k = 0; k < chunk.text.length; k++) {
+      charTimes.push({
+        start: chunk.startTime + (span * k) / chunk.text.length,
+        end: chunk.startTime + (span * (k + 1)) / chunk.text.length,
+      });
+    }
+    text += chunk.text;
+  }
+  return [...text.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    startTime: charTimes[match.index!].start,
+    endTime: charTimes[match.index! + match[0].length - 1].end,
+  }));
+}
+
+/** Spreads the cue's words over its duration in proportion to their length. */
+export function distributeWords(text: string, startTime: number, endTime: number): SubtitleWord[] {
+  const tokens = wordTokens(text);
+  // +1 per word stands in for the pause a space represents.
+  const total = tokens.reduce((sum, t) => sum + t.length + 1, 0);
+  const span = endTime - startTime;
+  let cursor = 0;
+  return tokens.map(token => {
+    const start = startTime + (span * cursor) / total;
+    cursor += token.length + 1;
+    return { text: token, startTime: start, endTime: startTime + (span * cursor) / total };
+  });
+}
+
+/** A bucket is speech when its peak reaches this fraction of the cue's loudest peak. */
+const VOICED_THRESHOLD = 0.15;
+/** Ignore near-silent cues entirely; there's nothing to align to. */
+const MIN_VOICED_PEAK = 0.02;
+
+/**
+ * A lightweight forced alignment: finds the voiced stretches of the cue in the waveform
+ * and hands them out to the words in proportion to their length, so pauses fall between
+ * words instead of stretching them. Falls back to `distributeWords` without audio.
+ */
+export function alignWords(sub: Subtitle, waveform: Waveform | null): SubtitleWord[] {
+  if (!waveform) return distributeWords(sub.text, sub.startTime, sub.endTime);
+  const bucket = 1 / waveform.peaksPerSecond;
+  const first = Math.max(0, Math.floor(sub.startTime * waveform.peaksPerSecond));
+  const last = Math.min(waveform.peaks.length, Math.ceil(sub.endTime * waveform.peaksPerSecond));
+  let loudest = 0;
+  for (let i = first; i < last; i++) loudest = Math.max(loudest, waveform.peaks[i]);
+  if (loudest < MIN_VOICED_PEAK) return distributeWords(sub.text, sub.startTime, sub.endTime);
+
+  const voiced: number[] = [];
+  for (let i = first; i < last; i++) {
+    if (waveform.peaks[i] >= loudest * VOICED_THRESHOLD) voiced.push(i);
+  }
+  const tokens = wordTokens(sub.text);
+  const total = tokens.reduce((sum, t) => sum + t.length, 0);
+  let cursor = 0;
+  return tokens.map(token => {
+    const from = Math.min(voiced.length - 1, Math.round((voiced.length * cursor) / total));
+    cursor += token.length;
+    // Each word owns voiced buckets [from, to]; the next word starts at the following one.
+    const to = Math.max(from, Math.round((voiced.length * cursor) / total) - 1);
+    return {
+      text: token,
+      startTime: Math.max(sub.startTime, voiced[from] * bucket),
+      endTime: Math.min(sub.endTime, voiced[Math.min(to, voiced.length - 1)] * bucket + bucket),
+    };
+  });
+}
+
+// --- EDITING ---
+
+/** Maps word times linearly from one cue span to another, e.g. after a timeline drag. */
+export function retimeWords(words: SubtitleWord[], from: { start: number; end: number }, to: { start: number; end: number }): SubtitleWord[] {
+  const scale = from.end > from.start ? (to.end - to.start) / (from.end - from.start) : 1;
+  const map = (t: number) => to.start + (t - from.start) * scale;
+  return words.map(w => ({ ...w, startTime: map(w.startTime), endTime: map(w.endTime) }));
+}
+
+export function clampWords(words: SubtitleWord[], startTime: number, endTime: number): SubtitleWord[] {
+  const clamp = (t: number) => Math.min(endTime, Math.max(startTime, t));
+  return words.map(w => ({ ...w, startTime: clamp(w.startTime), endTime: clamp(w.endTime) }));
+}